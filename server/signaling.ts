@@ -0,0 +1,114 @@
+import { WebSocketServer, type WebSocket } from "ws";
+
+// Minimal relay for the SignalMessage union in src/lib/signaling.ts. The server
+// never inspects SDP or candidates; it only needs the routing fields.
+interface Envelope {
+  type: string;
+  senderId: string;
+  targetId?: string;
+}
+
+interface Member {
+  socket: WebSocket;
+  clientId: string | null;
+  alive: boolean;
+  left: boolean;
+}
+
+const PORT = Number(process.env.PORT) || 8787;
+const HEARTBEAT_MS = 30000;
+
+const rooms = new Map<string, Set<Member>>();
+
+const isEnvelope = (value: unknown): value is Envelope => {
+  if (!value || typeof value !== "object") return false;
+  const v = value as Record<string, unknown>;
+  return (
+    typeof v.type === "string" &&
+    typeof v.senderId === "string" &&
+    (v.targetId === undefined || typeof v.targetId === "string")
+  );
+};
+
+const relay = (roomId: string, from: Member, raw: string, targetId?: string) => {
+  const members = rooms.get(roomId);
+  if (!members) return;
+  members.forEach((member) => {
+    if (member === from || member.socket.readyState !== member.socket.OPEN) return;
+    if (targetId && member.clientId !== targetId) return;
+    member.socket.send(raw);
+  });
+};
+
+const wss = new WebSocketServer({ port: PORT });
+
+wss.on("connection", (socket, request) => {
+  const url = new URL(request.url ?? "/", "http://localhost");
+  const roomId = url.searchParams.get("room");
+  if (!roomId) {
+    socket.close(1008, "Missing room");
+    return;
+  }
+
+  const member: Member = { socket, clientId: null, alive: true, left: false };
+  const members = rooms.get(roomId) ?? new Set<Member>();
+  members.add(member);
+  rooms.set(roomId, members);
+
+  socket.on("pong", () => {
+    member.alive = true;
+  });
+
+  socket.on("message", (data) => {
+    const raw = data.toString();
+    let msg: unknown;
+    try {
+      msg = JSON.parse(raw);
+    } catch {
+      return;
+    }
+    if (!isEnvelope(msg)) return;
+
+    // The first message binds the socket to a clientId; anything claiming to be
+    // someone else afterwards is dropped. A clientId already in the room can't
+    // be taken over by a second socket.
+    if (member.clientId === null) {
+      const senderId = msg.senderId;
+      if (Array.from(members).some((other) => other !== member && other.clientId === senderId)) {
+        socket.close(1008, "Duplicate clientId");
+        return;
+      }
+      member.clientId = senderId;
+    }
+    if (msg.senderId !== member.clientId) return;
+    if (msg.type === "leave") member.left = true;
+
+    relay(roomId, member, raw, msg.targetId);
+  });
+
+  socket.on("close", () => {
+    members.delete(member);
+    // Tell the room when a tab disappears without saying goodbye
+    if (member.clientId && !member.left) {
+      relay(roomId, member, JSON.stringify({ type: "leave", senderId: member.clientId }));
+    }
+    if (members.size === 0) rooms.delete(roomId);
+  });
+});
+
+const heartbeat = setInterval(() => {
+  rooms.forEach((members) => {
+    members.forEach((member) => {
+      if (!member.alive) {
+        member.socket.terminate();
+        return;
+      }
+      member.alive = false;
+      member.socket.ping();
+    });
+  });
+}, HEARTBEAT_MS);
+
+wss.on("close", () => clearInterval(heartbeat));
+
+console.log(`Forza Meet signaling server listening on ws://localhost:${PORT}`);
@@ -0,0 +1,183 @@
+import { useState } from "react";
+import { Download } from "lucide-react";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import type { PeerStatsSample, VideoResolution } from "@/lib/stats";
+
+interface CallStatsPanelProps {
+  children: React.ReactNode;
+  participants: { peerId: string; username: string }[];
+  statsHistory: Record<string, PeerStatsSample[]>;
+  onExportDiagnostics: (options: { redactSdp: boolean }) => void;
+}
+
+interface ChartPoint {
+  time: string;
+  inbound?: number | null;
+  outbound?: number | null;
+  value?: number | null;
+}
+
+const directionConfig = {
+  inbound: { label: "Received", color: "hsl(217 91% 60%)" },
+  outbound: { label: "Sent", color: "hsl(142 71% 45%)" },
+} satisfies ChartConfig;
+
+const rttConfig = {
+  value: { label: "RTT (ms)", color: "hsl(38 92% 50%)" },
+} satisfies ChartConfig;
+
+const lossConfig = {
+  value: { label: "Packet loss (%)", color: "hsl(0 84% 60%)" },
+} satisfies ChartConfig;
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { minute: "2-digit", second: "2-digit" });
+
+const formatResolution = (resolution: VideoResolution | null) =>
+  resolution ? `${resolution.width}×${resolution.height}` : "—";
+
+const round = (value: number | null) => (value === null ? null : Math.round(value * 10) / 10);
+
+function StatsChart({ title, config, data }: { title: string; config: ChartConfig; data: ChartPoint[] }) {
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-medium text-white/90">{title}</h3>
+      <ChartContainer config={config} className="aspect-auto h-40 w-full">
+        <LineChart data={data} margin={{ left: 0, right: 8, top: 4, bottom: 0 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="time" tickLine={false} axisLine={false} minTickGap={32} />
+          <YAxis tickLine={false} axisLine={false} width={40} />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          {Object.keys(config).length > 1 && <ChartLegend content={<ChartLegendContent />} />}
+          {Object.keys(config).map((key) => (
+            <Line
+              key={key}
+              dataKey={key}
+              type="monotone"
+              stroke={`var(--color-${key})`}
+              strokeWidth={2}
+              dot={false}
+              isAnimationActive={false}
+              connectNulls
+            />
+          ))}
+        </LineChart>
+      </ChartContainer>
+    </div>
+  );
+}
+
+export default function CallStatsPanel({ children, participants, statsHistory, onExportDiagnostics }: CallStatsPanelProps) {
+  const [selectedPeerId, setSelectedPeerId] = useState<string | null>(null);
+  const [redactSdp, setRedactSdp] = useState(true);
+  // Keep showing the chosen peer while they are in the call, otherwise the first one
+  const peerId = participants.some((p) => p.peerId === selectedPeerId)
+    ? selectedPeerId
+    : participants[0]?.peerId ?? null;
+  const history = (peerId && statsHistory[peerId]) || [];
+  const latest = history[history.length - 1];
+
+  const bitrateData = history.map((s) => ({
+    time: formatTime(s.timestamp),
+    inbound: round(s.inboundKbps),
+    outbound: round(s.outboundKbps),
+  }));
+  const frameRateData = history.map((s) => ({
+    time: formatTime(s.timestamp),
+    inbound: round(s.inboundFps),
+    outbound: round(s.outboundFps),
+  }));
+  const resolutionData = history.map((s) => ({
+    time: formatTime(s.timestamp),
+    inbound: s.inboundResolution?.height ?? null,
+    outbound: s.outboundResolution?.height ?? null,
+  }));
+  const rttData = history.map((s) => ({ time: formatTime(s.timestamp), value: round(s.rttMs) }));
+  const lossData = history.map((s) => ({ time: formatTime(s.timestamp), value: round(s.packetLossPct) }));
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>{children}</SheetTrigger>
+      <SheetContent className="text-white w-full sm:max-w-lg overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Call statistics</SheetTitle>
+          <SheetDescription>Live numbers from the browser's WebRTC stats, sampled every 2 seconds.</SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 rounded-lg bg-white/5 p-3 space-y-3">
+          <div className="flex items-center justify-between gap-3">
+            <div>
+              <Label htmlFor="redact-sdp">Redact SDP</Label>
+              <p className="text-xs text-white/60">Hide session descriptions and ICE candidates, which include IP addresses</p>
+            </div>
+            <Switch id="redact-sdp" checked={redactSdp} onCheckedChange={setRedactSdp} />
+          </div>
+          <Button variant="outline" className="w-full" onClick={() => onExportDiagnostics({ redactSdp })}>
+            <Download className="w-4 h-4 mr-2" />
+            Export diagnostics
+          </Button>
+        </div>
+
+        {participants.length === 0 ? (
+          <p className="mt-6 text-sm text-white/60">Statistics appear once someone else joins the call.</p>
+        ) : (
+          <div className="mt-6 space-y-6">
+            <Select value={peerId ?? undefined} onValueChange={setSelectedPeerId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a participant" />
+              </SelectTrigger>
+              <SelectContent>
+                {participants.map((p) => (
+                  <SelectItem key={p.peerId} value={p.peerId}>
+                    {p.username}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {history.length === 0 ? (
+              <p className="text-sm text-white/60">Collecting samples…</p>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 gap-3 text-sm">
+                  <div className="rounded-lg bg-white/5 p-3">
+                    <div className="text-white/60">Receiving</div>
+                    <div className="font-medium">{formatResolution(latest.inboundResolution)}</div>
+                  </div>
+                  <div className="rounded-lg bg-white/5 p-3">
+                    <div className="text-white/60">Sending</div>
+                    <div className="font-medium">{formatResolution(latest.outboundResolution)}</div>
+                  </div>
+                </div>
+                <StatsChart title="Bitrate (kbps)" config={directionConfig} data={bitrateData} />
+                <StatsChart title="Frame rate (fps)" config={directionConfig} data={frameRateData} />
+                <StatsChart title="Resolution (frame height, px)" config={directionConfig} data={resolutionData} />
+                <StatsChart title="Round-trip time (ms)" config={rttConfig} data={rttData} />
+                <StatsChart title="Packet loss (%)" config={lossConfig} data={lossData} />
+              </>
+            )}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -1,8 +1,17 @@
-import { useState, useRef, useEffect } from "react";
+import { Fragment, useCallback, useState, useRef, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import {
   Drawer,
   DrawerContent,
@@ -10,7 +19,10 @@ import {
   DrawerTitle,
   DrawerTrigger,
 } from "@/components/ui/drawer";
-import { MessageCircle, Send, X } from "lucide-react";
+import { Download, FileIcon, MessageCircle, MessageSquarePlus, Paperclip, Send, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { mergeChatMessages, type ChatHandler, type ChatHistoryHandler, type ChatMessage } from "@/lib/chat";
+import { isPreviewableImage, MAX_FILE_SIZE, type FileTransfer } from "@/lib/fileTransfer";
 
 interface Message {
   id: string;
@@ -18,76 +30,231 @@ interface Message {
   text: string;
   timestamp: number; // epoch ms
   isLocal: boolean;
+  // ROOM_CONVERSATION, or the peerId of the other side of a direct message
+  conversationId: string;
 }
 
-interface ChatDrawerProps {
+interface Conversation {
+  peerId: string;
   username: string;
-  roomId: string;
 }
 
-export default function ChatDrawer({ username, roomId }: ChatDrawerProps) {
+interface ChatDrawerProps {
+  clientId: string;
+  // From useWebRTC, which carries chat over each peer's data channel and
+  // keeps the room's transcript
+  getChatLog: () => ChatMessage[];
+  // recipientId makes it a direct message to that participant; null when it
+  // couldn't be delivered
+  sendChat: (text: string, recipientId?: string) => ChatMessage | null;
+  onChat: (handler: ChatHandler) => () => void;
+  onChatHistory: (handler: ChatHistoryHandler) => () => void;
+  // Attachments, sent peer to peer on a separate data channel
+  fileTransfers: FileTransfer[];
+  sendFile: (file: File) => void;
+  cancelFileTransfer: (id: string) => void;
+  // Who can be sent a direct message
+  participants: Conversation[];
+}
+
+const ROOM_CONVERSATION = "room";
+
+type TimelineItem =
+  | { kind: "message"; message: Message }
+  | { kind: "file"; transfer: FileTransfer };
+
+const toMessage = (message: ChatMessage, clientId: string): Message => ({
+  id: message.id,
+  username: message.username,
+  text: message.text,
+  timestamp: message.timestamp,
+  isLocal: message.senderId === clientId,
+  conversationId:
+    message.recipientId === undefined
+      ? ROOM_CONVERSATION
+      : message.senderId === clientId
+        ? message.recipientId
+        : message.senderId,
+});
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const transferStatus = (transfer: FileTransfer) => {
+  switch (transfer.status) {
+    case "transferring":
+      return `${formatSize(transfer.transferred)} of ${formatSize(transfer.size)}`;
+    case "complete":
+      return formatSize(transfer.size);
+    case "failed":
+      return transfer.error ?? "Transfer failed";
+    case "cancelled":
+      return transfer.error ?? "Cancelled";
+  }
+};
+
+export default function ChatDrawer({
+  clientId,
+  getChatLog,
+  sendChat,
+  onChat,
+  onChatHistory,
+  fileTransfers,
+  sendFile,
+  cancelFileTransfer,
+  participants,
+}: ChatDrawerProps) {
   const [isOpen, setIsOpen] = useState(false);
+  const isOpenRef = useRef(isOpen);
+  isOpenRef.current = isOpen;
   const [messageText, setMessageText] = useState("");
-  const [messages, setMessages] = useState<Message[]>([]);
-  const channelRef = useRef<BroadcastChannel | null>(null);
+  // Whatever was said before we opened, e.g. a transcript restored on rejoining
+  const [messages, setMessages] = useState<Message[]>(() => getChatLog().map((m) => toMessage(m, clientId)));
   const [hasUnread, setHasUnread] = useState(false);
+  // Direct message threads, in the order they were started
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [activeConversation, setActiveConversation] = useState(ROOM_CONVERSATION);
+  const activeConversationRef = useRef(activeConversation);
+  activeConversationRef.current = activeConversation;
+  const [unreadConversations, setUnreadConversations] = useState<Set<string>>(new Set());
+  // Newest message from before we joined; the divider goes after it
+  const [historyEnd, setHistoryEnd] = useState<{ id: string; timestamp: number } | null>(() => {
+    const log = getChatLog();
+    return log.length > 0 ? { id: log[log.length - 1].id, timestamp: log[log.length - 1].timestamp } : null;
+  });
   const unreadTimerRef = useRef<number | null>(null);
   const messagesRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Incoming attachments we've already flagged as unread
+  const seenTransfersRef = useRef(new Set<string>());
+  const { toast } = useToast();
+
+  // Marks the conversation's tab, and shows unread dot for 3s if drawer is closed
+  const flagUnread = useCallback((conversationId: string) => {
+    if (isOpenRef.current && activeConversationRef.current === conversationId) return;
+    setUnreadConversations((prev) => (prev.has(conversationId) ? prev : new Set(prev).add(conversationId)));
+    if (isOpenRef.current) return;
+    setHasUnread(true);
+    if (unreadTimerRef.current) window.clearTimeout(unreadTimerRef.current);
+    unreadTimerRef.current = window.setTimeout(() => {
+      setHasUnread(false);
+      unreadTimerRef.current = null;
+    }, 3000);
+  }, []);
 
   useEffect(() => {
-    const channel = new BroadcastChannel(`forza-meet:${roomId}:chat`);
-    channelRef.current = channel;
-    const onMessage = (event: MessageEvent) => {
-      const data = event.data as any;
-      if (!data || data.type !== "chat") return;
-      const incoming: Message = {
-        id: data.id,
-        username: data.username,
-        text: data.text,
-        timestamp: data.timestamp,
-        isLocal: false,
-      };
+    return onChat((message) => {
+      const incoming = toMessage(message, clientId);
       setMessages((prev) => {
         if (prev.some((m) => m.id === incoming.id)) return prev; // avoid duplicates
         return [...prev, incoming];
       });
-      // Show unread dot for 3s if drawer is closed and message is from others
-      if (!isOpen && data.username !== username) {
-        setHasUnread(true);
-        if (unreadTimerRef.current) window.clearTimeout(unreadTimerRef.current);
-        unreadTimerRef.current = window.setTimeout(() => {
-          setHasUnread(false);
-          unreadTimerRef.current = null;
-        }, 3000);
+      if (incoming.conversationId !== ROOM_CONVERSATION) {
+        setConversations((prev) =>
+          prev.some((c) => c.peerId === incoming.conversationId)
+            ? prev
+            : [...prev, { peerId: incoming.conversationId, username: incoming.username }],
+        );
       }
-    };
-    channel.addEventListener("message", onMessage as EventListener);
-    return () => {
-      channel.removeEventListener("message", onMessage as EventListener);
-      channel.close();
-      channelRef.current = null;
-    };
-  }, [roomId]);
+      if (!incoming.isLocal) flagUnread(incoming.conversationId);
+    });
+  }, [clientId, flagUnread, onChat]);
+
+  useEffect(() => {
+    const offered = fileTransfers.filter(
+      (t) => t.direction === "incoming" && !seenTransfersRef.current.has(t.id),
+    );
+    if (offered.length === 0) return;
+    offered.forEach((t) => seenTransfersRef.current.add(t.id));
+    // Attachments always go to the whole room
+    flagUnread(ROOM_CONVERSATION);
+  }, [fileTransfers, flagUnread]);
+
+  useEffect(() => {
+    return onChatHistory((history) => {
+      if (history.length === 0) return;
+      // Our own list isn't capped, unlike the backlog each participant keeps
+      setMessages((prev) => mergeChatMessages(prev, history.map((m) => toMessage(m, clientId)), Infinity));
+      const newest = history.reduce((a, b) => (b.timestamp > a.timestamp ? b : a));
+      setHistoryEnd((current) =>
+        current && current.timestamp >= newest.timestamp ? current : { id: newest.id, timestamp: newest.timestamp },
+      );
+    });
+  }, [clientId, onChatHistory]);
 
   useEffect(() => {
     if (messagesRef.current) {
       messagesRef.current.scrollTop = messagesRef.current.scrollHeight;
     }
-  }, [messages]);
+  }, [messages, fileTransfers.length, activeConversation]);
+
+  const markRead = (conversationId: string) => {
+    setUnreadConversations((prev) => {
+      if (!prev.has(conversationId)) return prev;
+      const next = new Set(prev);
+      next.delete(conversationId);
+      return next;
+    });
+  };
+
+  const selectConversation = (conversationId: string) => {
+    setActiveConversation(conversationId);
+    markRead(conversationId);
+  };
+
+  const startConversation = (participant: Conversation) => {
+    setConversations((prev) => (prev.some((c) => c.peerId === participant.peerId) ? prev : [...prev, participant]));
+    selectConversation(participant.peerId);
+  };
+
+  const isDirect = activeConversation !== ROOM_CONVERSATION;
+  const directPeer = conversations.find((c) => c.peerId === activeConversation);
+  // They may have left since; the thread stays readable but can't be answered
+  const directPeerPresent = participants.some((p) => p.peerId === activeConversation);
+  const canSend = !isDirect || directPeerPresent;
 
   const handleSendMessage = () => {
-    if (!messageText.trim()) return;
-    const id = Date.now().toString();
-    const ts = Date.now();
-    const local: Message = { id, username, text: messageText, timestamp: ts, isLocal: true };
-    setMessages((prev) => [...prev, local]);
-    if (channelRef.current) {
-      channelRef.current.postMessage({ type: "chat", id, username, text: messageText, timestamp: ts });
+    if (!messageText.trim() || !canSend) return;
+    const sent = sendChat(messageText, isDirect ? activeConversation : undefined);
+    if (!sent) {
+      // Keep the text so it can be sent again once they're connected
+      toast({
+        title: "Message not sent",
+        description: `${directPeer?.username ?? "This participant"} isn't connected yet. Try again in a moment.`,
+        variant: "destructive",
+      });
+      return;
     }
-    
+    setMessages((prev) => [...prev, toMessage(sent, clientId)]);
+
     setMessageText("");
   };
 
+  const handleSendFiles = (files: File[]) => {
+    files.forEach((file) => {
+      if (file.size > MAX_FILE_SIZE) {
+        toast({
+          title: "File too large",
+          description: `${file.name || "That file"} is over the ${formatSize(MAX_FILE_SIZE)} limit.`,
+          variant: "destructive",
+        });
+        return;
+      }
+      sendFile(file);
+    });
+  };
+
+  // Pasting a screenshot or copied file sends it straight away
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length === 0) return;
+    e.preventDefault();
+    handleSendFiles(files);
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
@@ -99,12 +266,25 @@ export default function ChatDrawer({ username, roomId }: ChatDrawerProps) {
     return new Date(epochMs).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
   };
 
+  // Messages and attachments in the order they were sent
+  const timeline: TimelineItem[] = [
+    ...messages
+      .filter((message) => message.conversationId === activeConversation)
+      .map((message): TimelineItem => ({ kind: "message", message })),
+    ...(isDirect ? [] : fileTransfers).map((transfer): TimelineItem => ({ kind: "file", transfer })),
+  ].sort((a, b) => {
+    const at = a.kind === "message" ? a.message.timestamp : a.transfer.timestamp;
+    const bt = b.kind === "message" ? b.message.timestamp : b.transfer.timestamp;
+    return at - bt;
+  });
+
   return (
     <Drawer
       open={isOpen}
       onOpenChange={(open) => {
         setIsOpen(open);
         if (open) {
+          markRead(activeConversation);
           setHasUnread(false);
           if (unreadTimerRef.current) {
             window.clearTimeout(unreadTimerRef.current);
@@ -135,60 +315,218 @@ export default function ChatDrawer({ username, roomId }: ChatDrawerProps) {
         </DrawerHeader>
 
         <div className="flex flex-col h-full min-h-0 p-4">
+          {/* Conversations */}
+          <div className="flex items-center gap-2 pb-3">
+            <Tabs value={activeConversation} onValueChange={selectConversation} className="min-w-0 flex-1 overflow-x-auto">
+              <TabsList className="bg-white/10 text-white/70">
+                {[{ peerId: ROOM_CONVERSATION, username: "Everyone" }, ...conversations].map((conversation) => (
+                  <TabsTrigger
+                    key={conversation.peerId}
+                    value={conversation.peerId}
+                    className="data-[state=active]:bg-white/20 data-[state=active]:text-white"
+                  >
+                    {conversation.username}
+                    {unreadConversations.has(conversation.peerId) && (
+                      <span className="ml-2 inline-block w-2 h-2 rounded-full bg-red-500" aria-label="Unread messages" />
+                    )}
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  disabled={participants.length === 0}
+                  className="text-white/70 hover:text-white hover:bg-white/10"
+                  aria-label="New direct message"
+                >
+                  <MessageSquarePlus className="w-4 h-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel>Message privately</DropdownMenuLabel>
+                {participants.map((participant) => (
+                  <DropdownMenuItem
+                    key={participant.peerId}
+                    onSelect={() => startConversation({ peerId: participant.peerId, username: participant.username })}
+                  >
+                    {participant.username}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+
           {/* Messages Area */}
           <div ref={messagesRef} className="flex-1 min-h-0 pr-4 overflow-y-auto">
             <div className="space-y-4 pb-4">
-              {messages.map((message) => (
-                <div
-                  key={message.id}
-                  className={`flex ${message.isLocal ? 'justify-end' : 'justify-start'} animate-fade-in`}
-                >
-                  <Card
-                    className={`max-w-[75%] p-3 ${
-                      message.isLocal
-                        ? 'bg-primary/40 border-primary/30 text-white'
-                        : 'bg-white/10 border-white/20 text-white'
-                    } backdrop-blur-sm`}
-                  >
-                    {!message.isLocal && (
-                      <div className="flex items-center gap-2 mb-1">
-                        <Badge 
-                          variant="secondary" 
-                          className="bg-white/20 text-white border-0 text-xs"
-                        >
-                          {message.username}
-                        </Badge>
-                        <span className="text-xs text-white/60">
-                          {formatTime(message.timestamp)}
-                        </span>
+              {timeline.map((item) => {
+                if (item.kind === "file") {
+                  const transfer = item.transfer;
+                  const isLocal = transfer.direction === "outgoing";
+                  return (
+                    <div
+                      key={transfer.id}
+                      className={`flex ${isLocal ? 'justify-end' : 'justify-start'} animate-fade-in`}
+                    >
+                      <Card
+                        className={`w-72 max-w-[75%] p-3 space-y-2 ${
+                          isLocal
+                            ? 'bg-primary/40 border-primary/30 text-white'
+                            : 'bg-white/10 border-white/20 text-white'
+                        } backdrop-blur-sm`}
+                      >
+                        <div className="flex items-center gap-2">
+                          {!isLocal && (
+                            <Badge
+                              variant="secondary"
+                              className="bg-white/20 text-white border-0 text-xs"
+                            >
+                              {transfer.username}
+                            </Badge>
+                          )}
+                          <span className="text-xs text-white/60">
+                            {formatTime(transfer.timestamp)}
+                          </span>
+                        </div>
+                        {transfer.status === "complete" && transfer.url && isPreviewableImage(transfer.mimeType) && (
+                          <img
+                            src={transfer.url}
+                            alt={transfer.name}
+                            className="max-h-48 w-full rounded-md object-contain bg-black/20"
+                          />
+                        )}
+                        <div className="flex items-center gap-2">
+                          <FileIcon className="w-4 h-4 shrink-0 text-white/70" />
+                          <div className="min-w-0 flex-1">
+                            <p className="text-sm truncate">{transfer.name}</p>
+                            <p className={`text-xs ${transfer.status === "failed" ? 'text-red-300' : 'text-white/60'}`}>
+                              {transferStatus(transfer)}
+                            </p>
+                          </div>
+                          {transfer.status === "transferring" && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => cancelFileTransfer(transfer.id)}
+                              className="h-7 w-7 text-white/70 hover:text-white hover:bg-white/10"
+                              aria-label={`Cancel ${transfer.name}`}
+                            >
+                              <X className="w-4 h-4" />
+                            </Button>
+                          )}
+                          {transfer.status === "complete" && transfer.url && (
+                            <a
+                              href={transfer.url}
+                              download={transfer.name}
+                              className="inline-flex h-7 w-7 items-center justify-center rounded-md text-white/70 hover:text-white hover:bg-white/10"
+                              aria-label={`Download ${transfer.name}`}
+                            >
+                              <Download className="w-4 h-4" />
+                            </a>
+                          )}
+                        </div>
+                        {transfer.status === "transferring" && (
+                          <Progress
+                            value={transfer.size > 0 ? (transfer.transferred / transfer.size) * 100 : 0}
+                            className="h-1.5 bg-white/10"
+                          />
+                        )}
+                      </Card>
+                    </div>
+                  );
+                }
+                const message = item.message;
+                return (
+                  <Fragment key={message.id}>
+                    <div
+                      className={`flex ${message.isLocal ? 'justify-end' : 'justify-start'} animate-fade-in`}
+                    >
+                      <Card
+                        className={`max-w-[75%] p-3 ${
+                          message.isLocal
+                            ? 'bg-primary/40 border-primary/30 text-white'
+                            : 'bg-white/10 border-white/20 text-white'
+                        } backdrop-blur-sm`}
+                      >
+                        {!message.isLocal && (
+                          <div className="flex items-center gap-2 mb-1">
+                            <Badge 
+                              variant="secondary" 
+                              className="bg-white/20 text-white border-0 text-xs"
+                            >
+                              {message.username}
+                            </Badge>
+                            <span className="text-xs text-white/60">
+                              {formatTime(message.timestamp)}
+                            </span>
+                          </div>
+                        )}
+                        <p className="text-sm leading-relaxed">{message.text}</p>
+                        {message.isLocal && (
+                          <div className="flex justify-end mt-1">
+                            <span className="text-xs text-white/60">
+                              {formatTime(message.timestamp)}
+                            </span>
+                          </div>
+                        )}
+                      </Card>
+                    </div>
+                    {message.id === historyEnd?.id && (
+                      <div className="flex items-center gap-3 text-xs text-white/50">
+                        <div className="h-px flex-1 bg-white/10" />
+                        <span>Earlier messages loaded</span>
+                        <div className="h-px flex-1 bg-white/10" />
                       </div>
                     )}
-                    <p className="text-sm leading-relaxed">{message.text}</p>
-                    {message.isLocal && (
-                      <div className="flex justify-end mt-1">
-                        <span className="text-xs text-white/60">
-                          {formatTime(message.timestamp)}
-                        </span>
-                      </div>
-                    )}
-                  </Card>
-                </div>
-              ))}
+                  </Fragment>
+                );
+              })}
             </div>
           </div>
 
           {/* Message Input */}
           <div className="flex gap-3 pt-4 border-t border-white/10">
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                handleSendFiles(Array.from(e.target.files ?? []));
+                // Let the same file be picked again
+                e.target.value = "";
+              }}
+            />
+            <Button
+              variant="ghost"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isDirect}
+              className="text-white/70 hover:text-white hover:bg-white/10 px-3"
+              aria-label="Attach a file"
+            >
+              <Paperclip className="w-4 h-4" />
+            </Button>
             <Input
               value={messageText}
               onChange={(e) => setMessageText(e.target.value)}
               onKeyPress={handleKeyPress}
-              placeholder="Type your message..."
+              onPaste={isDirect ? undefined : handlePaste}
+              disabled={!canSend}
+              placeholder={
+                !isDirect
+                  ? "Type your message..."
+                  : canSend
+                    ? `Message ${directPeer?.username ?? "them"} privately...`
+                    : `${directPeer?.username ?? "They"} left the call`
+              }
               className="flex-1 bg-white/10 border-white/20 text-white placeholder:text-white/60 focus:border-white/40 focus:ring-white/20"
             />
             <Button
               onClick={handleSendMessage}
-              disabled={!messageText.trim()}
+              disabled={!messageText.trim() || !canSend}
               className="bg-primary/60 hover:bg-primary/80 text-white border border-primary/30 px-4 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
             >
               <Send className="w-4 h-4" />
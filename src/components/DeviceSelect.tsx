@@ -0,0 +1,31 @@
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface DeviceSelectProps {
+  id: string;
+  label: string;
+  devices: MediaDeviceInfo[];
+  value?: string;
+  onChange: (deviceId: string) => void;
+  disabled?: boolean;
+}
+
+export default function DeviceSelect({ id, label, devices, value, onChange, disabled }: DeviceSelectProps) {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id} className="text-white/90">{label}</Label>
+      <Select value={value} onValueChange={onChange} disabled={disabled || devices.length === 0}>
+        <SelectTrigger id={id} className="bg-white/10 border-white/20 text-white">
+          <SelectValue placeholder={devices.length === 0 ? "No devices found" : "Default"} />
+        </SelectTrigger>
+        <SelectContent>
+          {devices.map((device, index) => (
+            <SelectItem key={device.deviceId} value={device.deviceId}>
+              {device.label || `${label} ${index + 1}`}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
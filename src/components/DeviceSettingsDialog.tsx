@@ -0,0 +1,79 @@
+import { useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useMediaDevices } from "@/hooks/useMediaDevices";
+import { supportsAudioOutputSelection } from "@/lib/media";
+import DeviceSelect from "./DeviceSelect";
+
+interface DeviceSettingsDialogProps {
+  children: React.ReactNode;
+  // Device ids actually in use, as reported by the local tracks
+  videoDeviceId?: string;
+  audioDeviceId?: string;
+  audioOutputDeviceId?: string;
+  onVideoDeviceChange: (deviceId: string) => void;
+  onAudioDeviceChange: (deviceId: string) => void;
+  onAudioOutputDeviceChange: (deviceId: string | undefined) => void;
+}
+
+export default function DeviceSettingsDialog({
+  children,
+  videoDeviceId,
+  audioDeviceId,
+  audioOutputDeviceId,
+  onVideoDeviceChange,
+  onAudioDeviceChange,
+  onAudioOutputDeviceChange,
+}: DeviceSettingsDialogProps) {
+  const { videoInputs, audioInputs, audioOutputs } = useMediaDevices();
+
+  // Fall back to the default speaker when the chosen one is unplugged
+  useEffect(() => {
+    if (audioOutputDeviceId && audioOutputs.length > 0 && !audioOutputs.some((d) => d.deviceId === audioOutputDeviceId)) {
+      onAudioOutputDeviceChange(undefined);
+    }
+  }, [audioOutputDeviceId, audioOutputs, onAudioOutputDeviceChange]);
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="text-white">
+        <DialogHeader>
+          <DialogTitle>Settings</DialogTitle>
+          <DialogDescription>Switch devices without leaving the call.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <DeviceSelect
+            id="settings-camera"
+            label="Camera"
+            devices={videoInputs}
+            value={videoDeviceId}
+            onChange={onVideoDeviceChange}
+          />
+          <DeviceSelect
+            id="settings-microphone"
+            label="Microphone"
+            devices={audioInputs}
+            value={audioDeviceId}
+            onChange={onAudioDeviceChange}
+          />
+          {supportsAudioOutputSelection() && (
+            <DeviceSelect
+              id="settings-speaker"
+              label="Speaker"
+              devices={audioOutputs}
+              value={audioOutputDeviceId}
+              onChange={onAudioOutputDeviceChange}
+            />
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,11 +3,16 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
-import { Video, Users, ArrowRight, Github } from "lucide-react";
+import { Video, Users, ArrowRight, Github, Settings, History } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { createSignalingTransport } from "@/lib/signaling";
+import { getInviteLink } from "@/lib/room";
+import { loadChatRetentionDays, pruneMeetings } from "@/lib/chatStore";
+import NetworkSettingsDialog from "./NetworkSettingsDialog";
+import PastMeetingsDialog from "./PastMeetingsDialog";
 
 interface LandingPageProps {
-  onJoinRoom: (username: string, roomId: string, isCreator: boolean) => void;
+  onJoinRoom: (username: string, roomId: string, isCreator: boolean, password?: string) => void;
 }
 
 export default function LandingPage({ onJoinRoom }: LandingPageProps) {
@@ -15,39 +20,53 @@ export default function LandingPage({ onJoinRoom }: LandingPageProps) {
   const [roomId, setRoomId] = useState("");
   const [mode, setMode] = useState<"select" | "create" | "join">("select");
   const [createdRoomId, setCreatedRoomId] = useState("");
+  const [roomPassword, setRoomPassword] = useState("");
   const { toast } = useToast();
   const pendingPresenceTimeoutRef = useRef<number | null>(null);
 
+  // Apply the transcript retention setting
+  useEffect(() => {
+    pruneMeetings(loadChatRetentionDays()).catch((err) => console.error("Failed to remove old meetings:", err));
+  }, []);
+
   const checkRoomPresence = async (room: string): Promise<boolean> => {
     return new Promise((resolve) => {
       let resolved = false;
-      const channel = new BroadcastChannel(`forza-meet:${room}`);
-      const onMessage = (event: MessageEvent) => {
-        const data = event.data as any;
-        if (data && data.type === "presence-response") {
+      const transport = createSignalingTransport(room);
+      const senderId = `landing-${Math.random().toString(36).slice(2)}`;
+      const unsubscribe = transport.subscribe((data) => {
+        if (data.type === "presence-response") {
           resolved = true;
           cleanup();
           resolve(true);
         }
-      };
+      });
       const cleanup = () => {
-        channel.removeEventListener("message", onMessage as EventListener);
-        channel.close();
+        unsubscribe();
+        transport.close();
         if (pendingPresenceTimeoutRef.current) {
           window.clearTimeout(pendingPresenceTimeoutRef.current);
           pendingPresenceTimeoutRef.current = null;
         }
       };
-      channel.addEventListener("message", onMessage as EventListener);
       // Ask if anyone is present in this room
-      channel.postMessage({ type: "presence-request", senderId: "landing" });
-      // Timeout after 800ms if nobody responds
-      pendingPresenceTimeoutRef.current = window.setTimeout(() => {
-        if (!resolved) {
+      transport
+        .connect()
+        .then(() => {
+          transport.send({ type: "presence-request", senderId });
+          // Timeout after 800ms if nobody responds
+          pendingPresenceTimeoutRef.current = window.setTimeout(() => {
+            if (!resolved) {
+              cleanup();
+              resolve(false);
+            }
+          }, 800);
+        })
+        .catch((err) => {
+          console.error("Presence check failed:", err);
           cleanup();
           resolve(false);
-        }
-      }, 800);
+        });
     });
   };
 
@@ -59,11 +78,12 @@ export default function LandingPage({ onJoinRoom }: LandingPageProps) {
     if (!username.trim()) return;
     const newRoomId = generateRoomId();
     setCreatedRoomId(newRoomId);
+    setRoomPassword("");
     setMode("create");
   };
 
   const handleJoinCreatedRoom = () => {
-    onJoinRoom(username, createdRoomId, true);
+    onJoinRoom(username, createdRoomId, true, roomPassword || undefined);
   };
 
   const handleJoinRoom = () => {
@@ -78,13 +98,13 @@ export default function LandingPage({ onJoinRoom }: LandingPageProps) {
     });
   };
 
-  const copyRoomId = async () => {
+  const copyInviteLink = async () => {
     try {
-      await navigator.clipboard.writeText(createdRoomId);
-      toast({ title: "Copied", description: "Room ID copied to clipboard." });
+      await navigator.clipboard.writeText(getInviteLink(createdRoomId));
+      toast({ title: "Copied", description: "Invite link copied to clipboard." });
     } catch (err) {
-      console.error("Failed to copy room ID:", err);
-      toast({ title: "Copy failed", description: "Could not copy Room ID.", variant: "destructive" as any });
+      console.error("Failed to copy invite link:", err);
+      toast({ title: "Copy failed", description: "Could not copy invite link.", variant: "destructive" as any });
     }
   };
 
@@ -100,6 +120,24 @@ export default function LandingPage({ onJoinRoom }: LandingPageProps) {
       >
         <Github className="w-6 h-6" />
       </a>
+      <NetworkSettingsDialog>
+        <button
+          type="button"
+          aria-label="Network settings"
+          className="fixed top-4 right-20 z-50 inline-flex items-center justify-center w-12 h-12 rounded-full bg-black/60 text-white shadow-lg hover:bg-black/80"
+        >
+          <Settings className="w-6 h-6" />
+        </button>
+      </NetworkSettingsDialog>
+      <PastMeetingsDialog>
+        <button
+          type="button"
+          aria-label="Past meetings"
+          className="fixed top-4 right-36 z-50 inline-flex items-center justify-center w-12 h-12 rounded-full bg-black/60 text-white shadow-lg hover:bg-black/80"
+        >
+          <History className="w-6 h-6" />
+        </button>
+      </PastMeetingsDialog>
       <div className="w-full max-w-md">
         <div className="text-center mb-8">
           <div className="inline-flex items-center justify-center w-16 h-16 bg-white/10 backdrop-blur rounded-2xl mb-4">
@@ -118,7 +156,7 @@ export default function LandingPage({ onJoinRoom }: LandingPageProps) {
             </CardTitle>
             <CardDescription className="text-white/70">
               {mode === "select" && "Enter your name to create or join a room"}
-              {mode === "create" && "Share this Room ID with your contact"}
+              {mode === "create" && "Share the invite link with your contact"}
               {mode === "join" && "Enter the Room ID to join the call"}
             </CardDescription>
           </CardHeader>
@@ -168,15 +206,28 @@ export default function LandingPage({ onJoinRoom }: LandingPageProps) {
                       className="bg-white/10 border-white/20 text-white"
                     />
                     <Button
-                      onClick={copyRoomId}
+                      onClick={copyInviteLink}
                       variant="outline"
                       size="sm"
                       className="border-white/30 text-white hover:bg-white/10 shrink-0"
                     >
-                      Copy
+                      Copy invite link
                     </Button>
                   </div>
                 </div>
+                <div className="space-y-2">
+                  <Label htmlFor="room-password" className="text-white/90">Password (optional)</Label>
+                  <Input
+                    id="room-password"
+                    type="password"
+                    value={roomPassword}
+                    onChange={(e) => setRoomPassword(e.target.value)}
+                    placeholder="Leave empty for an open room"
+                    autoComplete="new-password"
+                    className="bg-white/10 border-white/20 text-white placeholder:text-white/50"
+                  />
+                  <p className="text-xs text-white/60">Share it separately from the invite link.</p>
+                </div>
                 <div className="grid grid-cols-2 gap-3">
                   <Button
                     onClick={handleJoinCreatedRoom}
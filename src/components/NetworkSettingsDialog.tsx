@@ -0,0 +1,150 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import {
+  clearIceSettings,
+  getDefaultIceSettings,
+  loadIceSettings,
+  saveIceSettings,
+  type IceSettings,
+} from "@/lib/iceServers";
+
+interface NetworkSettingsDialogProps {
+  children: React.ReactNode;
+}
+
+const joinUrls = (urls: string[]) => urls.join(", ");
+const splitUrls = (value: string) =>
+  value
+    .split(/[,\s]+/)
+    .map((url) => url.trim())
+    .filter(Boolean);
+
+export default function NetworkSettingsDialog({ children }: NetworkSettingsDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [settings, setSettings] = useState<IceSettings>(loadIceSettings);
+  const [stunUrls, setStunUrls] = useState("");
+  const [turnUrls, setTurnUrls] = useState("");
+  const { toast } = useToast();
+
+  const reset = (next: IceSettings) => {
+    setSettings(next);
+    setStunUrls(joinUrls(next.stunUrls));
+    setTurnUrls(joinUrls(next.turnUrls));
+  };
+
+  const handleSave = () => {
+    saveIceSettings({ ...settings, stunUrls: splitUrls(stunUrls), turnUrls: splitUrls(turnUrls) });
+    toast({ title: "Network settings saved", description: "They apply to the next connection you make." });
+    setIsOpen(false);
+  };
+
+  const handleRestoreDefaults = () => {
+    clearIceSettings();
+    reset(getDefaultIceSettings());
+  };
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={(open) => {
+        setIsOpen(open);
+        if (open) reset(loadIceSettings());
+      }}
+    >
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="text-white">
+        <DialogHeader>
+          <DialogTitle>Network settings</DialogTitle>
+          <DialogDescription>
+            STUN/TURN servers used to connect peers. Stored in this browser only.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="stun-urls">STUN URLs</Label>
+            <Input
+              id="stun-urls"
+              value={stunUrls}
+              onChange={(e) => setStunUrls(e.target.value)}
+              placeholder="stun:stun.example.com:3478"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="turn-urls">TURN URLs</Label>
+            <Input
+              id="turn-urls"
+              value={turnUrls}
+              onChange={(e) => setTurnUrls(e.target.value)}
+              placeholder="turn:turn.example.com:3478, turns:turn.example.com:5349"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="turn-username">TURN username</Label>
+              <Input
+                id="turn-username"
+                value={settings.turnUsername}
+                onChange={(e) => setSettings({ ...settings, turnUsername: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="turn-credential">TURN credential</Label>
+              <Input
+                id="turn-credential"
+                type="password"
+                value={settings.turnCredential}
+                onChange={(e) => setSettings({ ...settings, turnCredential: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="credentials-url">Credentials endpoint</Label>
+            <Input
+              id="credentials-url"
+              value={settings.credentialsUrl}
+              onChange={(e) => setSettings({ ...settings, credentialsUrl: e.target.value })}
+              placeholder="https://example.com/turn-credentials"
+            />
+            <p className="text-xs text-muted-foreground">
+              Optional. Fetched before each connection for short-lived TURN credentials.
+            </p>
+          </div>
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="relay-only">Relay only</Label>
+              <p className="text-xs text-muted-foreground">Send all media through TURN</p>
+            </div>
+            <Switch
+              id="relay-only"
+              checked={settings.iceTransportPolicy === "relay"}
+              onCheckedChange={(checked) =>
+                setSettings({ ...settings, iceTransportPolicy: checked ? "relay" : "all" })
+              }
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={handleRestoreDefaults}>
+            Restore defaults
+          </Button>
+          <Button onClick={handleSave}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
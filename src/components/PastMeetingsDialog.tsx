@@ -0,0 +1,175 @@
+import { useState } from "react";
+import { Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import {
+  deleteMeeting,
+  listMeetings,
+  loadChatMessages,
+  loadChatRetentionDays,
+  pruneMeetings,
+  saveChatRetentionDays,
+  type MeetingRecord,
+  type StoredChatMessage,
+} from "@/lib/chatStore";
+
+interface PastMeetingsDialogProps {
+  children: React.ReactNode;
+}
+
+const RETENTION_OPTIONS = [
+  { value: "1", label: "1 day" },
+  { value: "7", label: "7 days" },
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "forever", label: "Forever" },
+];
+
+const formatDate = (epochMs: number) =>
+  new Date(epochMs).toLocaleString([], { dateStyle: "medium", timeStyle: "short" });
+
+const formatTime = (epochMs: number) =>
+  new Date(epochMs).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+
+export default function PastMeetingsDialog({ children }: PastMeetingsDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [meetings, setMeetings] = useState<MeetingRecord[]>([]);
+  const [openRoomId, setOpenRoomId] = useState("");
+  const [transcript, setTranscript] = useState<StoredChatMessage[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(loadChatRetentionDays);
+  const { toast } = useToast();
+
+  const refresh = async () => {
+    try {
+      setMeetings(await listMeetings());
+    } catch (err) {
+      console.error("Failed to list past meetings:", err);
+      toast({ title: "Couldn't load past meetings", description: "This browser's storage is unavailable.", variant: "destructive" });
+    }
+  };
+
+  const handleOpenMeeting = async (roomId: string) => {
+    setOpenRoomId(roomId);
+    setTranscript([]);
+    if (!roomId) return;
+    try {
+      setTranscript(await loadChatMessages(roomId));
+    } catch (err) {
+      console.error("Failed to load chat transcript:", err);
+    }
+  };
+
+  const handleDelete = async (roomId: string) => {
+    try {
+      await deleteMeeting(roomId);
+      if (openRoomId === roomId) setOpenRoomId("");
+      await refresh();
+    } catch (err) {
+      console.error("Failed to delete meeting:", err);
+      toast({ title: "Delete failed", description: "Could not delete this meeting.", variant: "destructive" });
+    }
+  };
+
+  const handleRetentionChange = async (value: string) => {
+    const days = value === "forever" ? null : Number(value);
+    setRetentionDays(days);
+    saveChatRetentionDays(days);
+    try {
+      await pruneMeetings(days);
+      await refresh();
+    } catch (err) {
+      console.error("Failed to remove old meetings:", err);
+    }
+  };
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={(open) => {
+        setIsOpen(open);
+        if (open) {
+          setOpenRoomId("");
+          refresh();
+        }
+      }}
+    >
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="text-white max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Past meetings</DialogTitle>
+          <DialogDescription>Chat transcripts of rooms you joined. Stored in this browser only.</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between gap-3">
+          <Label htmlFor="chat-retention">Keep transcripts for</Label>
+          <Select value={retentionDays === null ? "forever" : String(retentionDays)} onValueChange={handleRetentionChange}>
+            <SelectTrigger id="chat-retention" className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RETENTION_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {meetings.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No past meetings yet.</p>
+        ) : (
+          <Accordion type="single" collapsible value={openRoomId} onValueChange={handleOpenMeeting}>
+            {meetings.map((meeting) => (
+              <AccordionItem key={meeting.roomId} value={meeting.roomId}>
+                <AccordionTrigger className="text-left">
+                  <div className="min-w-0">
+                    <div className="font-medium truncate">{meeting.roomId}</div>
+                    <div className="text-xs text-muted-foreground font-normal">
+                      {formatDate(meeting.lastActiveAt)} · {meeting.participants.join(", ")}
+                    </div>
+                  </div>
+                </AccordionTrigger>
+                <AccordionContent className="space-y-3">
+                  {transcript.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No messages were sent in this meeting.</p>
+                  ) : (
+                    <div className="space-y-1 text-sm">
+                      {transcript.map((message) => (
+                        <p key={message.id}>
+                          <span className="text-xs text-muted-foreground mr-2">{formatTime(message.timestamp)}</span>
+                          <span className="font-medium">{message.own ? "You" : message.username}:</span> {message.text}
+                        </p>
+                      ))}
+                    </div>
+                  )}
+                  <Button variant="outline" size="sm" onClick={() => handleDelete(meeting.roomId)}>
+                    <Trash2 className="w-4 h-4 mr-2" />
+                    Delete meeting
+                  </Button>
+                </AccordionContent>
+              </AccordionItem>
+            ))}
+          </Accordion>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
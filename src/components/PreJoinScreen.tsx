@@ -0,0 +1,237 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Mic, MicOff, Video, VideoOff } from "lucide-react";
+import { useMediaDevices } from "@/hooks/useMediaDevices";
+import { useAudioLevel } from "@/hooks/useAudioLevel";
+import {
+  DEFAULT_MEDIA_PREFERENCES,
+  getMediaConstraints,
+  getUserMediaWithFallback,
+  supportsAudioOutputSelection,
+  type MediaPreferences,
+} from "@/lib/media";
+import DeviceSelect from "./DeviceSelect";
+
+interface PreJoinScreenProps {
+  roomId: string;
+  initialUsername?: string;
+  initialPassword?: string;
+  // Why the last attempt to join failed, e.g. a wrong password
+  error?: string | null;
+  onJoin: (username: string, media: MediaPreferences, password?: string, e2eePassphrase?: string) => void;
+  onCancel: () => void;
+}
+
+export default function PreJoinScreen({
+  roomId,
+  initialUsername = "",
+  initialPassword = "",
+  error,
+  onJoin,
+  onCancel,
+}: PreJoinScreenProps) {
+  const [username, setUsername] = useState(initialUsername);
+  const [password, setPassword] = useState(initialPassword);
+  const [e2eePassphrase, setE2eePassphrase] = useState("");
+  const [preferences, setPreferences] = useState<MediaPreferences>(DEFAULT_MEDIA_PREFERENCES);
+  const [previewStream, setPreviewStream] = useState<MediaStream | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const { videoInputs, audioInputs, audioOutputs, refresh: refreshDevices } = useMediaDevices();
+  const micLevel = useAudioLevel(preferences.audioEnabled ? previewStream : null);
+  const { videoDeviceId, audioDeviceId } = preferences;
+
+  // Re-acquire the preview whenever a different camera or microphone is picked
+  useEffect(() => {
+    let cancelled = false;
+    let acquired: MediaStream | null = null;
+    setPreviewError(null);
+    // Without a camera (or any device) the preview falls back like the call does
+    getUserMediaWithFallback(getMediaConstraints({ ...DEFAULT_MEDIA_PREFERENCES, videoDeviceId, audioDeviceId })).then(
+      ({ stream, issue }) => {
+        if (cancelled) {
+          stream.getTracks().forEach((t) => t.stop());
+          return;
+        }
+        acquired = stream;
+        setPreviewStream(stream);
+        if (issue) setPreviewError(issue.mode === "audio-only" ? "Camera unavailable" : "Camera and microphone unavailable");
+        // Device labels only become available once permission is granted
+        refreshDevices();
+      },
+    );
+    return () => {
+      cancelled = true;
+      acquired?.getTracks().forEach((t) => t.stop());
+    };
+  }, [videoDeviceId, audioDeviceId, refreshDevices]);
+
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.srcObject = previewStream;
+  }, [previewStream]);
+
+  // Show which device the browser actually picked until the user chooses one
+  const activeVideoId = videoDeviceId ?? previewStream?.getVideoTracks()[0]?.getSettings().deviceId;
+  const activeAudioId = audioDeviceId ?? previewStream?.getAudioTracks()[0]?.getSettings().deviceId;
+
+  const handleJoin = () => {
+    if (!username.trim()) return;
+    // Release the preview so the call can open the same devices
+    previewStream?.getTracks().forEach((t) => t.stop());
+    onJoin(username.trim(), preferences, password || undefined, e2eePassphrase || undefined);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900 flex items-center justify-center p-4">
+      <div className="w-full max-w-4xl grid gap-6 md:grid-cols-2 items-start">
+        <div className="space-y-4">
+          <div className="relative aspect-video rounded-2xl overflow-hidden bg-gradient-to-br from-slate-800 to-slate-900 border border-white/20">
+            <video ref={videoRef} autoPlay muted playsInline className="w-full h-full object-cover" />
+            {(!preferences.videoEnabled || !previewStream || previewError) && (
+              <div className="absolute inset-0 bg-gradient-to-br from-slate-800 to-slate-900 flex items-center justify-center">
+                <div className="text-center">
+                  <div className="w-20 h-20 bg-slate-700 rounded-full flex items-center justify-center mb-4 mx-auto shadow-xl">
+                    <VideoOff className="w-10 h-10 text-slate-400" />
+                  </div>
+                  <p className="text-slate-300 font-medium">{previewError ?? "Camera off"}</p>
+                </div>
+              </div>
+            )}
+            <div className="absolute bottom-4 left-1/2 -translate-x-1/2 flex items-center gap-3">
+              <Button
+                onClick={() => setPreferences({ ...preferences, audioEnabled: !preferences.audioEnabled })}
+                variant={preferences.audioEnabled ? "secondary" : "destructive"}
+                size="lg"
+                className={`rounded-full w-12 h-12 p-0 text-white shadow-lg ${
+                  preferences.audioEnabled ? "bg-slate-700 hover:bg-slate-600" : "bg-red-500 hover:bg-red-600"
+                }`}
+              >
+                {preferences.audioEnabled ? <Mic className="w-5 h-5" /> : <MicOff className="w-5 h-5" />}
+              </Button>
+              <Button
+                onClick={() => setPreferences({ ...preferences, videoEnabled: !preferences.videoEnabled })}
+                variant={preferences.videoEnabled ? "secondary" : "destructive"}
+                size="lg"
+                className={`rounded-full w-12 h-12 p-0 text-white shadow-lg ${
+                  preferences.videoEnabled ? "bg-slate-700 hover:bg-slate-600" : "bg-red-500 hover:bg-red-600"
+                }`}
+              >
+                {preferences.videoEnabled ? <Video className="w-5 h-5" /> : <VideoOff className="w-5 h-5" />}
+              </Button>
+            </div>
+          </div>
+
+          {/* Mic level meter */}
+          <div className="flex items-center gap-3">
+            <Mic className="w-4 h-4 text-white/70" />
+            <div className="flex-1 h-2 rounded-full bg-white/10 overflow-hidden">
+              <div
+                className="h-full bg-emerald-400 transition-[width] duration-75"
+                style={{ width: `${Math.round(micLevel * 100)}%` }}
+              />
+            </div>
+          </div>
+        </div>
+
+        <Card className="bg-white/10 backdrop-blur border-white/20 text-white">
+          <CardHeader className="text-center">
+            <CardTitle>Ready to join?</CardTitle>
+            <CardDescription className="text-white/70 break-all">Room {roomId}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="prejoin-username" className="text-white/90">Your Name</Label>
+              <Input
+                id="prejoin-username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handleJoin();
+                }}
+                placeholder="Enter your name"
+                autoFocus={!error}
+                className="bg-white/10 border-white/20 text-white placeholder:text-white/50"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="prejoin-password" className="text-white/90">Room password</Label>
+              <Input
+                id="prejoin-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handleJoin();
+                }}
+                placeholder="Only if the room has one"
+                autoFocus={!!error}
+                className="bg-white/10 border-white/20 text-white placeholder:text-white/50"
+              />
+              {error && <p role="alert" className="text-sm text-red-400">{error}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="prejoin-e2ee" className="text-white/90">Encryption passphrase</Label>
+              <Input
+                id="prejoin-e2ee"
+                type="password"
+                value={e2eePassphrase}
+                onChange={(e) => setE2eePassphrase(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handleJoin();
+                }}
+                placeholder="Optional"
+                autoComplete="off"
+                className="bg-white/10 border-white/20 text-white placeholder:text-white/50"
+              />
+              <p className="text-xs text-white/60">
+                Encrypts audio and video end to end. Everyone in the call must use the same passphrase.
+              </p>
+            </div>
+            <DeviceSelect
+              id="prejoin-camera"
+              label="Camera"
+              devices={videoInputs}
+              value={activeVideoId}
+              onChange={(videoDeviceId) => setPreferences({ ...preferences, videoDeviceId })}
+            />
+            <DeviceSelect
+              id="prejoin-microphone"
+              label="Microphone"
+              devices={audioInputs}
+              value={activeAudioId}
+              onChange={(audioDeviceId) => setPreferences({ ...preferences, audioDeviceId })}
+            />
+            {supportsAudioOutputSelection() && (
+              <DeviceSelect
+                id="prejoin-speaker"
+                label="Speaker"
+                devices={audioOutputs}
+                value={preferences.audioOutputDeviceId}
+                onChange={(audioOutputDeviceId) => setPreferences({ ...preferences, audioOutputDeviceId })}
+              />
+            )}
+            <div className="grid grid-cols-2 gap-3">
+              <Button
+                onClick={handleJoin}
+                disabled={!username.trim()}
+                className="bg-success hover:bg-success/90"
+              >
+                Join Call
+              </Button>
+              <Button
+                onClick={onCancel}
+                variant="outline"
+                className="border-white/30 text-white hover:bg-white/10"
+              >
+                Back
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,27 @@ import { useEffect, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ToastAction } from "@/components/ui/toast";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
 import { 
   Mic, 
@@ -14,45 +35,164 @@ import {
   Wifi,
   WifiOff,
   Settings,
-  MoreVertical
+  MoreVertical,
+  Loader2,
+  AlertTriangle,
+  X,
+  ScreenShare,
+  ScreenShareOff,
+  Activity,
+  LayoutGrid,
+  UserSquare2,
+  Pin,
+  PinOff,
+  Star,
+  Maximize,
+  PictureInPicture2,
+  Crown,
+  Lock,
+  LockOpen,
+  UserX,
+  LogOut,
+  DoorOpen,
+  DoorClosed,
+  ShieldCheck
 } from "lucide-react";
 import { useWebRTC } from "@/hooks/useWebRTC";
+import { useActiveSpeaker } from "@/hooks/useActiveSpeaker";
+import { getInviteLink } from "@/lib/room";
+import type { ConnectionQuality } from "@/lib/stats";
+import { buildDiagnosticsReport, downloadDiagnosticsReport } from "@/lib/diagnostics";
+import { DEFAULT_MEDIA_PREFERENCES, describeMediaIssue, setAudioOutput, type MediaPreferences } from "@/lib/media";
 import ChatDrawer from "./ChatDrawer";
+import DeviceSettingsDialog from "./DeviceSettingsDialog";
+import CallStatsPanel from "./CallStatsPanel";
 
 interface VideoRoomProps {
   username: string;
   roomId: string;
   isCreator: boolean;
+  media?: MediaPreferences;
+  passwordKey?: Promise<CryptoKey>;
+  e2eePassphrase?: string;
   onLeaveRoom: () => void;
+  // The host turned us away for a missing or wrong password
+  onJoinRejected: (reason: "wrong-password" | "password-required") => void;
 }
 
-export default function VideoRoom({ username, roomId, onLeaveRoom }: VideoRoomProps) {
-  const localVideoRef = useRef<HTMLVideoElement>(null);
-  const [isAudioEnabled, setIsAudioEnabled] = useState(true);
-  const [isVideoEnabled, setIsVideoEnabled] = useState(true);
+export default function VideoRoom({
+  username,
+  roomId,
+  isCreator,
+  media = DEFAULT_MEDIA_PREFERENCES,
+  passwordKey,
+  e2eePassphrase,
+  onLeaveRoom,
+  onJoinRejected,
+}: VideoRoomProps) {
+  const [isAudioEnabled, setIsAudioEnabled] = useState(media.audioEnabled);
+  const [isVideoEnabled, setIsVideoEnabled] = useState(media.videoEnabled);
   const [isControlsVisible, setIsControlsVisible] = useState(true);
   const [hoveredTile, setHoveredTile] = useState<string | null>(null);
+  const [audioOutputDeviceId, setAudioOutputDeviceId] = useState(media.audioOutputDeviceId);
+  const [isMediaIssueDismissed, setIsMediaIssueDismissed] = useState(false);
+  const [layout, setLayout] = useState<"grid" | "speaker">("grid");
+  // Tile pinned to the stage for this viewer only; wins over the host's spotlight
+  const [pinnedTileId, setPinnedTileId] = useState<string | null>(null);
+  const tileElementsRef = useRef<Map<string, HTMLDivElement>>(new Map());
   const { toast } = useToast();
 
   const {
     localStream,
     remoteParticipants,
     connectionState,
+    signalingStatus,
+    clientId,
     startCall,
     toggleAudio,
     toggleVideo,
+    switchDevice,
+    mediaIssue,
+    screenStream,
+    startScreenShare,
+    stopScreenShare,
+    statsHistory,
+    e2eeStatus,
+    sendChat,
+    onChat,
+    onChatHistory,
+    getChatLog,
+    fileTransfers,
+    sendFile,
+    cancelFileTransfer,
+    diagnostics,
+    activeDevices,
+    spotlightId,
+    setSpotlight,
+    hostId,
+    isHost,
+    roomLocked,
+    waitingRoomEnabled,
+    setWaitingRoomEnabled,
+    admission,
+    waitingParticipants,
+    respondToKnock,
+    hostAction,
+    moderate,
+    transferHost,
+    setRoomLocked,
+    endMeeting,
     hangUp
-  } = useWebRTC(username, roomId);
+  } = useWebRTC(username, roomId, { media, isHost: isCreator, passwordKey, e2eePassphrase });
+  const handledHostActionRef = useRef(hostAction);
 
   useEffect(() => {
-    if (localVideoRef.current && localStream) {
-      localVideoRef.current.srcObject = localStream;
-    }
+    startCall();
+  }, [startCall]);
+
+  const activeSpeakerId = useActiveSpeaker(
+    remoteParticipants.map((p) => {
+      const history = statsHistory[p.peerId];
+      return {
+        id: p.peerId,
+        stream: p.stream,
+        muted: !p.audioEnabled,
+        statsLevel: history?.[history.length - 1]?.audioLevel,
+      };
+    }),
+  );
+
+  const hasAudioTrack = !!localStream && localStream.getAudioTracks().length > 0;
+  const hasVideoTrack = !!localStream && localStream.getVideoTracks().length > 0;
+
+  // Reflect devices we had to do without (or that were added later via Settings)
+  useEffect(() => {
+    if (!localStream) return;
+    setIsAudioEnabled(localStream.getAudioTracks().some((t) => t.enabled));
+    setIsVideoEnabled(localStream.getVideoTracks().some((t) => t.enabled));
   }, [localStream]);
 
   useEffect(() => {
-    startCall();
-  }, [startCall]);
+    setIsMediaIssueDismissed(false);
+  }, [mediaIssue]);
+
+  useEffect(() => {
+    if (e2eeStatus !== "unsupported") return;
+    toast({
+      title: "Media isn't encrypted",
+      description: "This browser can't encrypt audio and video end to end, so others using the passphrase won't see or hear you.",
+      variant: "destructive",
+    });
+  }, [e2eeStatus, toast]);
+
+  useEffect(() => {
+    if (signalingStatus !== "closed") return;
+    toast({
+      title: "Signaling lost",
+      description: "The connection to the signaling server couldn't be restored, so the others can no longer reach you. Leave and rejoin the room to try again.",
+      variant: "destructive",
+    });
+  }, [signalingStatus, toast]);
 
   // Auto-hide controls after 3 seconds of inactivity
   useEffect(() => {
@@ -72,19 +212,19 @@ export default function VideoRoom({ username, roomId, onLeaveRoom }: VideoRoomPr
     };
   }, [isControlsVisible]);
 
-  const copyRoomId = async () => {
+  const copyInviteLink = async () => {
     try {
-      await navigator.clipboard.writeText(roomId);
+      await navigator.clipboard.writeText(getInviteLink(roomId));
       toast({ 
         title: "✓ Copied", 
-        description: "Room ID copied to clipboard.",
+        description: "Invite link copied to clipboard.",
         className: "bg-green-600 text-white border-green-500"
       });
     } catch (err) {
-      console.error("Failed to copy room ID:", err);
+      console.error("Failed to copy invite link:", err);
       toast({ 
         title: "Copy failed", 
-        description: "Could not copy Room ID.", 
+        description: "Could not copy invite link.", 
         variant: "destructive" as any 
       });
     }
@@ -100,12 +240,158 @@ export default function VideoRoom({ username, roomId, onLeaveRoom }: VideoRoomPr
     setIsVideoEnabled(!isVideoEnabled);
   };
 
+  const handleSwitchDevice = async (kind: "audioinput" | "videoinput", deviceId: string) => {
+    try {
+      await switchDevice(kind, deviceId);
+    } catch (err) {
+      console.error("Failed to switch device:", err);
+      toast({
+        title: "Could not switch device",
+        description: "The selected device may be in use by another application.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleExportDiagnostics = async ({ redactSdp }: { redactSdp: boolean }) => {
+    try {
+      const report = await buildDiagnosticsReport(
+        diagnostics,
+        {
+          roomId,
+          clientId,
+          username,
+          media: { ...media, ...activeDevices, audioOutputDeviceId, audioEnabled: isAudioEnabled, videoEnabled: isVideoEnabled },
+          localStream,
+          participants: remoteParticipants.map(({ peerId, username, connectionStatus }) => ({ peerId, username, connectionStatus })),
+        },
+        { redactSdp },
+      );
+      downloadDiagnosticsReport(report);
+    } catch (err) {
+      console.error("Failed to export diagnostics:", err);
+      toast({
+        title: "Export failed",
+        description: "Could not create the diagnostics report.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleToggleScreenShare = async () => {
+    if (screenStream) {
+      stopScreenShare();
+      return;
+    }
+    try {
+      await startScreenShare();
+    } catch (err) {
+      // Cancelling the browser's picker lands here too
+      if (err instanceof DOMException && err.name === "NotAllowedError") return;
+      console.error("Failed to share screen:", err);
+      toast({
+        title: "Screen sharing failed",
+        description: "Your browser could not capture the screen.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleFullscreen = async (tileId: string) => {
+    try {
+      await tileElementsRef.current.get(tileId)?.requestFullscreen();
+    } catch (err) {
+      console.error("Failed to enter fullscreen:", err);
+      toast({ title: "Fullscreen unavailable", description: "Your browser blocked fullscreen for this video.", variant: "destructive" });
+    }
+  };
+
+  const handlePictureInPicture = async (tileId: string) => {
+    const video = tileElementsRef.current.get(tileId)?.querySelector("video");
+    try {
+      if (!video) return;
+      if (document.pictureInPictureElement === video) await document.exitPictureInPicture();
+      else await video.requestPictureInPicture();
+    } catch (err) {
+      console.error("Failed to open picture-in-picture:", err);
+      toast({ title: "Picture-in-picture unavailable", description: "This video can't be popped out right now.", variant: "destructive" });
+    }
+  };
+
   const handleLeaveRoom = () => {
     hangUp();
     onLeaveRoom();
   };
 
+  const handleToggleWaitingRoom = () => {
+    // Turning the waiting room off lets in everyone already waiting
+    if (waitingRoomEnabled) waitingParticipants.forEach((p) => respondToKnock(p.peerId, true));
+    setWaitingRoomEnabled(!waitingRoomEnabled);
+  };
+
+  // Carry out what the host asked of us
+  useEffect(() => {
+    if (!hostAction || hostAction === handledHostActionRef.current) return;
+    handledHostActionRef.current = hostAction;
+    switch (hostAction.event) {
+      case "mute": {
+        if (localStream?.getAudioTracks().some((t) => t.enabled)) {
+          toggleAudio();
+          setIsAudioEnabled(false);
+        }
+        toast({ title: "You were muted", description: "The host muted your microphone." });
+        break;
+      }
+      case "request-video": {
+        const turnOnCamera = () => {
+          const track = localStream?.getVideoTracks()[0];
+          if (track && !track.enabled) {
+            toggleVideo();
+            setIsVideoEnabled(true);
+          }
+        };
+        toast({
+          title: "Camera requested",
+          description: "The host asked you to turn on your camera.",
+          action: <ToastAction altText="Turn on camera" onClick={turnOnCamera}>Turn on</ToastAction>,
+        });
+        break;
+      }
+      case "removed":
+      case "ended":
+      case "locked-out":
+      case "denied": {
+        hangUp();
+        onLeaveRoom();
+        const messages = {
+          removed: { title: "You left the meeting", description: "The host removed you from the meeting." },
+          ended: { title: "You left the meeting", description: "The host ended the meeting for everyone." },
+          "locked-out": {
+            title: "Meeting locked",
+            description: "The host has locked this meeting. Ask them to unlock it, then try again.",
+          },
+          denied: { title: "Not admitted", description: "The host didn't let you into the meeting." },
+        };
+        toast(messages[hostAction.event]);
+        break;
+      }
+      case "wrong-password":
+      case "password-required": {
+        // Back to the join screen, which explains what went wrong
+        hangUp();
+        onJoinRejected(hostAction.event);
+        break;
+      }
+    }
+  }, [hangUp, hostAction, localStream, onJoinRejected, onLeaveRoom, toast, toggleAudio, toggleVideo]);
+
+  // Losing signaling outranks the state of the peer connections
+  const statusLabel =
+    signalingStatus === "reconnecting" ? "reconnecting" : signalingStatus === "closed" ? "signaling lost" : connectionState;
+
   const getStatusColor = () => {
+    if (signalingStatus === "reconnecting") return "bg-amber-500/90";
+    if (signalingStatus === "closed") return "bg-red-500/90";
     switch (connectionState) {
       case "connected": return "bg-emerald-500/90";
       case "connecting": return "bg-amber-500/90";
@@ -115,26 +401,36 @@ export default function VideoRoom({ username, roomId, onLeaveRoom }: VideoRoomPr
   };
 
   const getStatusIcon = () => {
-    return connectionState === "connected" ? <Wifi className="w-3 h-3" /> : <WifiOff className="w-3 h-3" />;
+    return connectionState === "connected" && signalingStatus === "connected" ? <Wifi className="w-3 h-3" /> : <WifiOff className="w-3 h-3" />;
   };
 
   // Build unified tiles array: local first, then remotes
   const tiles = [
     {
       id: "local",
+      peerId: clientId,
       stream: localStream as MediaStream | null,
       name: `${username} (You)`,
       videoEnabled: isVideoEnabled,
       audioEnabled: isAudioEnabled,
       isLocal: true,
+      isReconnecting: false,
+      isSpeaking: false,
+      isHost,
+      quality: null as ConnectionQuality | null,
     },
     ...remoteParticipants.map((p) => ({
       id: p.peerId,
+      peerId: p.peerId,
       stream: p.stream,
       name: p.username || "Participant",
       videoEnabled: p.videoEnabled,
       audioEnabled: p.audioEnabled,
       isLocal: false,
+      isReconnecting: p.connectionStatus === "reconnecting",
+      isSpeaking: p.peerId === activeSpeakerId,
+      isHost: p.peerId === hostId,
+      quality: p.quality,
     })),
   ];
 
@@ -147,6 +443,191 @@ export default function VideoRoom({ username, roomId, onLeaveRoom }: VideoRoomPr
     return "grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4";
   };
 
+  // Someone's shared screen, remote shares taking precedence over our own
+  const remotePresenter = remoteParticipants.find((p) => p.screenStream);
+  const presenter = remotePresenter
+    ? { stream: remotePresenter.screenStream, name: remotePresenter.username || "Participant", isLocal: false }
+    : screenStream
+      ? { stream: screenStream, name: username, isLocal: true }
+      : null;
+
+  // What takes the stage: our own pin, then the host's spotlight, then (in
+  // speaker view) whoever spoke last or the first remote until someone does
+  const pinnedTile = tiles.find((t) => t.id === pinnedTileId);
+  const spotlightTile = tiles.find((t) => t.peerId === spotlightId);
+  const speakerTile =
+    layout === "speaker"
+      ? tiles.find((t) => t.id === activeSpeakerId) ?? tiles.find((t) => !t.isLocal) ?? tiles[0]
+      : undefined;
+  const stageTile = pinnedTile ?? spotlightTile ?? speakerTile;
+
+  const renderTile = (tile: (typeof tiles)[number], index: number) => (
+    <Card 
+      key={tile.id} 
+      className={`
+        bg-slate-800/50 backdrop-blur-xl border-slate-700/50 overflow-hidden
+        transition-all duration-300 ease-out hover:scale-[1.02] hover:shadow-2xl
+        hover:bg-slate-700/50 group cursor-pointer
+        ${tile.isSpeaking ? 'ring-2 ring-emerald-400' : hoveredTile === tile.id ? 'ring-2 ring-blue-400/50' : ''}
+      `}
+      style={{
+        animationDelay: `${index * 100}ms`,
+        animation: 'slideInUp 0.6s ease-out forwards'
+      }}
+      onMouseEnter={() => setHoveredTile(tile.id)}
+      onMouseLeave={() => setHoveredTile(null)}
+      ref={(el) => {
+        if (el) tileElementsRef.current.set(tile.id, el);
+        else tileElementsRef.current.delete(tile.id);
+      }}
+    >
+      <div className="relative aspect-video bg-gradient-to-br from-slate-800 to-slate-900">
+        {tile.isLocal ? (
+          // Remounts when switching layouts, so the stream is attached on mount
+          <ParticipantVideo stream={tile.stream} muted />
+        ) : (
+          <ParticipantVideo stream={tile.stream} videoEnabled={tile.videoEnabled} audioOutputDeviceId={audioOutputDeviceId} />
+        )}
+
+        {/* Video disabled overlay */}
+        {((tile.isLocal && !isVideoEnabled) || (!tile.isLocal && tile.videoEnabled === false)) && (
+          <div className="absolute inset-0 bg-gradient-to-br from-slate-800 to-slate-900 flex items-center justify-center">
+            <div className="text-center animate-fade-in">
+              <div className="w-20 h-20 bg-slate-700 rounded-full flex items-center justify-center mb-4 mx-auto shadow-xl">
+                <VideoOff className="w-10 h-10 text-slate-400" />
+              </div>
+              <p className="text-slate-300 font-medium">Camera off</p>
+            </div>
+          </div>
+        )}
+
+        {/* Reconnecting overlay while ICE restarts are in progress */}
+        {tile.isReconnecting && (
+          <div className="absolute inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center">
+            <div className="text-center animate-fade-in">
+              <Loader2 className="w-8 h-8 text-white/80 animate-spin mx-auto mb-2" />
+              <p className="text-slate-200 font-medium">Reconnecting…</p>
+            </div>
+          </div>
+        )}
+
+        {/* Participant name badge */}
+        <div className="absolute bottom-4 left-4 transition-all duration-300 group-hover:scale-105">
+          <Badge 
+            variant="secondary" 
+            className="bg-black/70 text-white border-0 backdrop-blur-sm shadow-lg px-3 py-1 rounded-full"
+          >
+            <span className="font-medium flex items-center gap-1.5">
+              {tile.isHost && <Crown className="w-3 h-3 text-amber-300" />}
+              {tile.id === pinnedTileId && <Pin className="w-3 h-3" />}
+              {tile.peerId === spotlightId && <Star className="w-3 h-3 text-amber-300" />}
+              {tile.name}
+            </span>
+          </Badge>
+        </div>
+
+        {/* Audio status indicator */}
+        <MicStatusOverlay enabled={tile.audioEnabled} />
+
+        {/* Connection quality indicator for remote participants */}
+        {!tile.isLocal && <ConnectionQualityIndicator quality={tile.quality} />}
+
+        {/* Hover overlay for additional controls */}
+        <div className={`
+          absolute inset-0 bg-black/20 backdrop-blur-sm opacity-0 group-hover:opacity-100
+          transition-all duration-300 flex items-center justify-center
+        `}>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="sm"
+                aria-label={`Options for ${tile.name}`}
+                className="text-white/80 hover:text-white hover:bg-white/20 rounded-full"
+              >
+                <MoreVertical className="w-4 h-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="center">
+              <DropdownMenuItem onSelect={() => setPinnedTileId(tile.id === pinnedTileId ? null : tile.id)}>
+                {tile.id === pinnedTileId ? <PinOff className="w-4 h-4 mr-2" /> : <Pin className="w-4 h-4 mr-2" />}
+                {tile.id === pinnedTileId ? "Unpin" : "Pin for me"}
+              </DropdownMenuItem>
+              {isHost && (
+                <DropdownMenuItem onSelect={() => setSpotlight(tile.peerId === spotlightId ? null : tile.peerId)}>
+                  <Star className="w-4 h-4 mr-2" />
+                  {tile.peerId === spotlightId ? "Remove spotlight" : "Spotlight for everyone"}
+                </DropdownMenuItem>
+              )}
+              {isHost && !tile.isLocal && (
+                <>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem disabled={!tile.audioEnabled} onSelect={() => moderate(tile.peerId, "mute")}>
+                    <MicOff className="w-4 h-4 mr-2" />
+                    Mute
+                  </DropdownMenuItem>
+                  <DropdownMenuItem disabled={tile.videoEnabled} onSelect={() => moderate(tile.peerId, "request-video")}>
+                    <Video className="w-4 h-4 mr-2" />
+                    Ask to turn on camera
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onSelect={() => transferHost(tile.peerId)}>
+                    <Crown className="w-4 h-4 mr-2" />
+                    Make host
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onSelect={() => moderate(tile.peerId, "remove")}
+                    className="text-red-500 focus:text-red-500"
+                  >
+                    <UserX className="w-4 h-4 mr-2" />
+                    Remove from meeting
+                  </DropdownMenuItem>
+                </>
+              )}
+              <DropdownMenuSeparator />
+              {document.fullscreenEnabled && (
+                <DropdownMenuItem onSelect={() => handleFullscreen(tile.id)}>
+                  <Maximize className="w-4 h-4 mr-2" />
+                  Fullscreen
+                </DropdownMenuItem>
+              )}
+              {document.pictureInPictureEnabled && (
+                <DropdownMenuItem
+                  disabled={!tile.stream || tile.stream.getVideoTracks().length === 0}
+                  onSelect={() => handlePictureInPicture(tile.id)}
+                >
+                  <PictureInPicture2 className="w-4 h-4 mr-2" />
+                  Picture-in-picture
+                </DropdownMenuItem>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      </div>
+    </Card>
+  );
+
+  // Knocked but not admitted yet: nothing is connected until the host lets us in
+  if (admission === "knocking" || admission === "waiting") {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md bg-white/10 backdrop-blur border-white/20 text-white p-8 text-center space-y-4">
+          <Loader2 className="w-10 h-10 text-white/80 animate-spin mx-auto" />
+          <h2 className="text-xl font-semibold">
+            {admission === "waiting" ? "Waiting for the host to let you in" : "Asking to join…"}
+          </h2>
+          <p className="text-white/70 break-all">Room {roomId}</p>
+          <Button
+            onClick={handleLeaveRoom}
+            variant="outline"
+            className="border-white/30 text-white hover:bg-white/10"
+          >
+            Leave
+          </Button>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 relative overflow-hidden">
       {/* Animated background elements */}
@@ -171,9 +652,10 @@ export default function VideoRoom({ username, roomId, onLeaveRoom }: VideoRoomPr
                   <div className="flex items-center gap-2">
                     <span className="text-white font-semibold">{roomId}</span>
                     <Button
-                      onClick={copyRoomId}
+                      onClick={copyInviteLink}
                       variant="ghost"
                       size="sm"
+                      title="Copy invite link"
                       className="text-white/70 hover:text-white hover:bg-white/20 rounded-lg transition-all duration-200 hover:scale-105"
                     >
                       <Copy className="w-4 h-4" />
@@ -187,103 +669,217 @@ export default function VideoRoom({ username, roomId, onLeaveRoom }: VideoRoomPr
               <Badge className={`${getStatusColor()} text-white border-0 px-3 py-1 rounded-full shadow-lg backdrop-blur-sm`}>
                 <div className="flex items-center gap-2">
                   {getStatusIcon()}
-                  <span className="capitalize font-medium">{connectionState}</span>
+                  <span className="capitalize font-medium">{statusLabel}</span>
                 </div>
               </Badge>
+
+              {e2eeStatus === "active" && (
+                <Badge
+                  title="Audio and video are encrypted end to end with the call's passphrase"
+                  className="bg-emerald-600/90 hover:bg-emerald-600/90 text-white border-0 px-3 py-1 rounded-full shadow-lg backdrop-blur-sm"
+                >
+                  <div className="flex items-center gap-2">
+                    <ShieldCheck className="w-4 h-4" />
+                    <span className="font-medium">Encrypted</span>
+                  </div>
+                </Badge>
+              )}
               
+              {isHost ? (
+                <>
+                  <Button
+                    onClick={() => setRoomLocked(!roomLocked)}
+                    variant="ghost"
+                    size="sm"
+                    title={roomLocked ? "Unlock meeting" : "Lock meeting"}
+                    className={`hover:bg-white/20 rounded-xl p-2 transition-all duration-200 ${
+                      roomLocked ? 'text-amber-300 hover:text-amber-200' : 'text-white/70 hover:text-white'
+                    }`}
+                  >
+                    {roomLocked ? <Lock className="w-5 h-5" /> : <LockOpen className="w-5 h-5" />}
+                  </Button>
+                  <Button
+                    onClick={handleToggleWaitingRoom}
+                    variant="ghost"
+                    size="sm"
+                    title={waitingRoomEnabled ? "Turn off waiting room" : "Turn on waiting room"}
+                    className={`hover:bg-white/20 rounded-xl p-2 transition-all duration-200 ${
+                      waitingRoomEnabled ? 'text-amber-300 hover:text-amber-200' : 'text-white/70 hover:text-white'
+                    }`}
+                  >
+                    {waitingRoomEnabled ? <DoorClosed className="w-5 h-5" /> : <DoorOpen className="w-5 h-5" />}
+                  </Button>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="End meeting for all"
+                        className="text-red-300 hover:text-red-200 hover:bg-white/20 rounded-xl p-2 transition-all duration-200"
+                      >
+                        <LogOut className="w-5 h-5" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent className="text-white">
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>End the meeting for everyone?</AlertDialogTitle>
+                        <AlertDialogDescription>All participants will be disconnected.</AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                          onClick={() => {
+                            endMeeting();
+                            handleLeaveRoom();
+                          }}
+                          className="bg-red-500 hover:bg-red-600"
+                        >
+                          End meeting
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </>
+              ) : (
+                roomLocked && (
+                  <span title="The host locked this meeting" className="text-amber-300 p-2">
+                    <Lock className="w-5 h-5" />
+                  </span>
+                )
+              )}
+
               <Button
+                onClick={() => setLayout(layout === "grid" ? "speaker" : "grid")}
                 variant="ghost"
                 size="sm"
+                title={layout === "grid" ? "Speaker view" : "Grid view"}
                 className="text-white/70 hover:text-white hover:bg-white/20 rounded-xl p-2 transition-all duration-200"
               >
-                <Settings className="w-5 h-5" />
+                {layout === "grid" ? <UserSquare2 className="w-5 h-5" /> : <LayoutGrid className="w-5 h-5" />}
               </Button>
+
+              <CallStatsPanel
+                participants={remoteParticipants}
+                statsHistory={statsHistory}
+                onExportDiagnostics={handleExportDiagnostics}
+              >
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title="Call statistics"
+                  className="text-white/70 hover:text-white hover:bg-white/20 rounded-xl p-2 transition-all duration-200"
+                >
+                  <Activity className="w-5 h-5" />
+                </Button>
+              </CallStatsPanel>
+
+              <DeviceSettingsDialog
+                videoDeviceId={localStream?.getVideoTracks()[0]?.getSettings().deviceId}
+                audioDeviceId={localStream?.getAudioTracks()[0]?.getSettings().deviceId}
+                audioOutputDeviceId={audioOutputDeviceId}
+                onVideoDeviceChange={(deviceId) => handleSwitchDevice("videoinput", deviceId)}
+                onAudioDeviceChange={(deviceId) => handleSwitchDevice("audioinput", deviceId)}
+                onAudioOutputDeviceChange={setAudioOutputDeviceId}
+              >
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-white/70 hover:text-white hover:bg-white/20 rounded-xl p-2 transition-all duration-200"
+                >
+                  <Settings className="w-5 h-5" />
+                </Button>
+              </DeviceSettingsDialog>
             </div>
           </div>
         </div>
 
-        {/* Video Grid */}
-        <div className={`grid ${getGridClass()} gap-3 mb-6 transition-all duration-500 ease-out`}>
-          {tiles.map((tile, index) => (
-            <Card 
-              key={tile.id} 
-              className={`
-                bg-slate-800/50 backdrop-blur-xl border-slate-700/50 overflow-hidden
-                transition-all duration-300 ease-out hover:scale-[1.02] hover:shadow-2xl
-                hover:bg-slate-700/50 group cursor-pointer
-                ${hoveredTile === tile.id ? 'ring-2 ring-blue-400/50' : ''}
-              `}
-              style={{
-                animationDelay: `${index * 100}ms`,
-                animation: 'slideInUp 0.6s ease-out forwards'
-              }}
-              onMouseEnter={() => setHoveredTile(tile.id)}
-              onMouseLeave={() => setHoveredTile(null)}
-            >
-              <div className="relative aspect-video bg-gradient-to-br from-slate-800 to-slate-900">
-                {tile.isLocal ? (
-                  <video 
-                    ref={localVideoRef} 
-                    autoPlay 
-                    muted 
-                    playsInline 
-                    className="w-full h-full object-cover rounded-lg transition-all duration-300"
-                  />
-                ) : (
-                  <ParticipantVideo stream={tile.stream} videoEnabled={tile.videoEnabled} />
-                )}
-                
-                {/* Video disabled overlay */}
-                {((tile.isLocal && !isVideoEnabled) || (!tile.isLocal && tile.videoEnabled === false)) && (
-                  <div className="absolute inset-0 bg-gradient-to-br from-slate-800 to-slate-900 flex items-center justify-center">
-                    <div className="text-center animate-fade-in">
-                      <div className="w-20 h-20 bg-slate-700 rounded-full flex items-center justify-center mb-4 mx-auto shadow-xl">
-                        <VideoOff className="w-10 h-10 text-slate-400" />
-                      </div>
-                      <p className="text-slate-300 font-medium">Camera off</p>
-                    </div>
-                  </div>
-                )}
-
-                {/* Participant name badge */}
-                <div className="absolute bottom-4 left-4 transition-all duration-300 group-hover:scale-105">
-                  <Badge 
-                    variant="secondary" 
-                    className="bg-black/70 text-white border-0 backdrop-blur-sm shadow-lg px-3 py-1 rounded-full"
+        {/* Admission queue for the host */}
+        {isHost && waitingParticipants.length > 0 && (
+          <Card className="mb-6 bg-white/10 border-white/20 text-white backdrop-blur-xl rounded-2xl p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="font-medium">
+                {waitingParticipants.length === 1 ? "1 person is" : `${waitingParticipants.length} people are`} waiting to join
+              </span>
+              {waitingParticipants.length > 1 && (
+                <Button
+                  size="sm"
+                  onClick={() => waitingParticipants.forEach((p) => respondToKnock(p.peerId, true))}
+                  className="bg-success hover:bg-success/90"
+                >
+                  Admit all
+                </Button>
+              )}
+            </div>
+            {waitingParticipants.map((p) => (
+              <div key={p.peerId} className="flex items-center justify-between gap-3">
+                <span className="truncate">{p.username || "Participant"}</span>
+                <div className="flex gap-2 shrink-0">
+                  <Button size="sm" onClick={() => respondToKnock(p.peerId, true)} className="bg-success hover:bg-success/90">
+                    Admit
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => respondToKnock(p.peerId, false)}
+                    className="border-white/30 text-white hover:bg-white/10"
                   >
-                    <span className="font-medium">{tile.name}</span>
-                  </Badge>
+                    Deny
+                  </Button>
                 </div>
+              </div>
+            ))}
+          </Card>
+        )}
 
-                {/* Audio status indicator */}
-                <MicStatusOverlay enabled={tile.audioEnabled} />
+        {/* Media fallback notice */}
+        {mediaIssue && !isMediaIssueDismissed && (
+          <Alert className="mb-6 bg-amber-500/15 border-amber-400/40 text-white backdrop-blur-xl rounded-2xl pr-12">
+            <AlertTriangle className="h-4 w-4 !text-amber-300" />
+            <AlertTitle>{describeMediaIssue(mediaIssue).title}</AlertTitle>
+            <AlertDescription className="text-white/80">{describeMediaIssue(mediaIssue).description}</AlertDescription>
+            <button
+              type="button"
+              onClick={() => setIsMediaIssueDismissed(true)}
+              aria-label="Dismiss"
+              className="absolute right-4 top-4 text-white/60 hover:text-white"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </Alert>
+        )}
 
-                {/* Connection quality indicator for remote participants */}
-                {!tile.isLocal && (
-                  <div className="absolute top-3 left-3">
-                    <div className="w-2 h-2 bg-green-400 rounded-full animate-pulse shadow-lg"></div>
-                  </div>
-                )}
-
-                {/* Hover overlay for additional controls */}
-                <div className={`
-                  absolute inset-0 bg-black/20 backdrop-blur-sm opacity-0 group-hover:opacity-100
-                  transition-all duration-300 flex items-center justify-center
-                `}>
-                  {!tile.isLocal && (
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      className="text-white/80 hover:text-white hover:bg-white/20 rounded-full"
-                    >
-                      <MoreVertical className="w-4 h-4" />
-                    </Button>
-                  )}
+        {presenter ? (
+          // Presenter layout: the shared screen takes the stage, cameras become a filmstrip
+          <div className="mb-6 space-y-3">
+            <ScreenShareStage stream={presenter.stream} name={presenter.name} isLocal={presenter.isLocal} />
+            <div className="flex gap-3 overflow-x-auto pb-2">
+              {tiles.map((tile, index) => (
+                <div key={tile.id} className="w-48 shrink-0">
+                  {renderTile(tile, index)}
                 </div>
-              </div>
-            </Card>
-          ))}
-        </div>
+              ))}
+            </div>
+          </div>
+        ) : stageTile ? (
+          // Stage layout: a pinned, spotlighted or speaking tile above everyone else
+          <div className="mb-6 space-y-3">
+            <div className="max-w-5xl mx-auto">{renderTile(stageTile, 0)}</div>
+            <div className="flex gap-3 overflow-x-auto pb-2">
+              {tiles
+                .filter((tile) => tile.id !== stageTile.id)
+                .map((tile, index) => (
+                  <div key={tile.id} className="w-48 shrink-0">
+                    {renderTile(tile, index + 1)}
+                  </div>
+                ))}
+            </div>
+          </div>
+        ) : (
+          /* Video Grid */
+          <div className={`grid ${getGridClass()} gap-3 mb-6 transition-all duration-500 ease-out`}>
+            {tiles.map((tile, index) => renderTile(tile, index))}
+          </div>
+        )}
 
         {/* Controls - Floating bottom bar */}
         <div className={`
@@ -295,6 +891,7 @@ export default function VideoRoom({ username, roomId, onLeaveRoom }: VideoRoomPr
             <div className="flex items-center gap-4">
               <Button
                 onClick={handleToggleAudio}
+                disabled={!hasAudioTrack}
                 variant={isAudioEnabled ? "secondary" : "destructive"}
                 size="lg"
                 className={`
@@ -313,6 +910,7 @@ export default function VideoRoom({ username, roomId, onLeaveRoom }: VideoRoomPr
               
               <Button
                 onClick={handleToggleVideo}
+                disabled={!hasVideoTrack}
                 variant={isVideoEnabled ? "secondary" : "destructive"}
                 size="lg"
                 className={`
@@ -329,7 +927,38 @@ export default function VideoRoom({ username, roomId, onLeaveRoom }: VideoRoomPr
                 }
               </Button>
 
-              <ChatDrawer username={username} roomId={roomId} />
+              {"getDisplayMedia" in (navigator.mediaDevices ?? {}) && (
+                <Button
+                  onClick={handleToggleScreenShare}
+                  variant="secondary"
+                  size="lg"
+                  title={screenStream ? "Stop sharing" : "Share screen"}
+                  className={`
+                    rounded-full w-14 h-14 p-0 transition-all duration-300 hover:scale-110 text-white shadow-lg
+                    ${screenStream 
+                      ? 'bg-blue-500 hover:bg-blue-600 shadow-blue-500/25' 
+                      : 'bg-slate-700 hover:bg-slate-600'
+                    }
+                  `}
+                >
+                  {screenStream ? 
+                    <ScreenShareOff className="w-6 h-6" /> : 
+                    <ScreenShare className="w-6 h-6" />
+                  }
+                </Button>
+              )}
+
+              <ChatDrawer
+                clientId={clientId}
+                getChatLog={getChatLog}
+                sendChat={sendChat}
+                onChat={onChat}
+                onChatHistory={onChatHistory}
+                fileTransfers={fileTransfers}
+                sendFile={sendFile}
+                cancelFileTransfer={cancelFileTransfer}
+                participants={remoteParticipants}
+              />
               
               <Button
                 onClick={handleLeaveRoom}
@@ -381,7 +1010,7 @@ export default function VideoRoom({ username, roomId, onLeaveRoom }: VideoRoomPr
   );
 }
 
-function ParticipantVideo({ stream, videoEnabled }: { stream: MediaStream | null; videoEnabled?: boolean }) {
+function ParticipantVideo({ stream, videoEnabled, audioOutputDeviceId, muted }: { stream: MediaStream | null; videoEnabled?: boolean; audioOutputDeviceId?: string; muted?: boolean }) {
   const ref = useRef<HTMLVideoElement>(null);
   
   useEffect(() => {
@@ -390,11 +1019,16 @@ function ParticipantVideo({ stream, videoEnabled }: { stream: MediaStream | null
     }
   }, [stream]);
 
+  useEffect(() => {
+    if (ref.current) setAudioOutput(ref.current, audioOutputDeviceId);
+  }, [audioOutputDeviceId]);
+
   return (
     <div className="w-full h-full relative">
       <video 
         ref={ref} 
         autoPlay 
+        muted={muted}
         playsInline 
         className="w-full h-full object-cover rounded-lg transition-all duration-300"
       />
@@ -412,6 +1046,68 @@ function ParticipantVideo({ stream, videoEnabled }: { stream: MediaStream | null
   );
 }
 
+function ScreenShareStage({ stream, name, isLocal }: { stream: MediaStream | null; name: string; isLocal: boolean }) {
+  const ref = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    if (ref.current && stream) {
+      ref.current.srcObject = stream;
+    }
+  }, [stream]);
+
+  return (
+    <Card className="relative bg-black/60 backdrop-blur-xl border-slate-700/50 overflow-hidden">
+      <div className="relative aspect-video max-h-[70vh] w-full">
+        {/* Our own shared audio would echo back, so the local preview stays muted */}
+        <video ref={ref} autoPlay muted={isLocal} playsInline className="w-full h-full object-contain" />
+        <div className="absolute top-4 left-4">
+          <Badge className="bg-black/70 text-white border-0 backdrop-blur-sm shadow-lg px-3 py-1 rounded-full">
+            <ScreenShare className="w-3 h-3 mr-2" />
+            <span className="font-medium">{isLocal ? "You are presenting" : `${name} is presenting`}</span>
+          </Badge>
+        </div>
+      </div>
+    </Card>
+  );
+}
+
+function ConnectionQualityIndicator({ quality }: { quality: ConnectionQuality | null }) {
+  const color = !quality
+    ? "bg-slate-400"
+    : quality.level === "good"
+      ? "bg-green-400"
+      : quality.level === "fair"
+        ? "bg-amber-400"
+        : "bg-red-500 animate-pulse";
+  const format = (value: number | null, unit: string, digits = 0) =>
+    value === null ? "–" : `${value.toFixed(digits)} ${unit}`;
+
+  return (
+    <div className="absolute top-3 left-3 z-10">
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <button type="button" aria-label="Connection quality" className="p-1 -m-1">
+            <div className={`w-2 h-2 rounded-full shadow-lg ${color}`}></div>
+          </button>
+        </TooltipTrigger>
+        <TooltipContent side="right" className="text-xs">
+          {quality ? (
+            <div className="space-y-0.5">
+              <p className="font-medium capitalize">{quality.level} connection ({quality.score.toFixed(1)}/4.5)</p>
+              <p>Round trip: {format(quality.rttMs, "ms")}</p>
+              <p>Packet loss: {format(quality.packetLossPct, "%", 1)}</p>
+              <p>Jitter: {format(quality.jitterMs, "ms")}</p>
+              <p>Bitrate: ↓ {format(quality.inboundKbps, "kbps")} · ↑ {format(quality.outboundKbps, "kbps")}</p>
+            </div>
+          ) : (
+            <p>Measuring connection…</p>
+          )}
+        </TooltipContent>
+      </Tooltip>
+    </div>
+  );
+}
+
 function MicStatusOverlay({ enabled }: { enabled: boolean }) {
   return (
     <div className={`
@@ -0,0 +1,116 @@
+import { useEffect, useRef, useState } from "react";
+
+export interface SpeakerSource {
+  id: string;
+  stream: MediaStream | null;
+  // Sources the sender has muted never become the speaker
+  muted: boolean;
+  // Latest inbound audioLevel from getStats(), used when WebAudio can't read the stream
+  statsLevel?: number | null;
+}
+
+const SAMPLE_INTERVAL_MS = 100;
+// Smoothed level a source must exceed to count as speaking
+const SPEAKING_THRESHOLD = 0.08;
+// Weight of the newest sample in the moving average
+const SMOOTHING = 0.3;
+// A new speaker must stay loudest this long before taking over...
+const SWITCH_AFTER_MS = 800;
+// ...and the current one keeps the stage at least this long
+const MIN_HOLD_MS = 1500;
+
+interface Meter {
+  source: MediaStreamAudioSourceNode;
+  analyser: AnalyserNode;
+  samples: Float32Array;
+}
+
+// Picks whoever is talking, with hysteresis so the choice doesn't flicker
+// between people talking over each other. The last speaker is kept through
+// silence; null until someone speaks.
+export function useActiveSpeaker(sources: SpeakerSource[]) {
+  const [activeSpeakerId, setActiveSpeakerId] = useState<string | null>(null);
+  const sourcesRef = useRef(sources);
+  sourcesRef.current = sources;
+  const activeRef = useRef<string | null>(null);
+
+  // Rebuild the analysers only when the set of audio streams changes
+  const streamKey = sources
+    .map((s) => `${s.id}:${s.stream?.id ?? ""}:${s.stream?.getAudioTracks().length ?? 0}`)
+    .join(",");
+
+  useEffect(() => {
+    const context = new AudioContext();
+    // Created outside a user gesture the context may start suspended
+    context.resume().catch(() => undefined);
+    const meters = new Map<string, Meter>();
+    sourcesRef.current.forEach(({ id, stream }) => {
+      if (!stream || stream.getAudioTracks().length === 0) return;
+      const source = context.createMediaStreamSource(stream);
+      const analyser = context.createAnalyser();
+      analyser.fftSize = 512;
+      source.connect(analyser);
+      meters.set(id, { source, analyser, samples: new Float32Array(analyser.fftSize) });
+    });
+
+    const smoothed = new Map<string, number>();
+    let candidate: string | null = null;
+    let candidateSince = 0;
+    let lastSwitch = 0;
+
+    const select = (id: string | null, now: number) => {
+      activeRef.current = id;
+      lastSwitch = now;
+      candidate = null;
+      setActiveSpeakerId(id);
+    };
+
+    const tick = () => {
+      const now = performance.now();
+      let loudest: string | null = null;
+      let loudestLevel = SPEAKING_THRESHOLD;
+
+      sourcesRef.current.forEach(({ id, muted, statsLevel }) => {
+        let level = 0;
+        const meter = meters.get(id);
+        if (!muted && meter && context.state === "running") {
+          meter.analyser.getFloatTimeDomainData(meter.samples);
+          let sum = 0;
+          for (const sample of meter.samples) sum += sample * sample;
+          // Same scaling as useAudioLevel
+          level = Math.min(1, Math.sqrt(sum / meter.samples.length) * 4);
+        } else if (!muted) {
+          level = statsLevel ?? 0;
+        }
+        const value = (smoothed.get(id) ?? 0) * (1 - SMOOTHING) + level * SMOOTHING;
+        smoothed.set(id, value);
+        if (value > loudestLevel) {
+          loudest = id;
+          loudestLevel = value;
+        }
+      });
+
+      const current = activeRef.current;
+      if (current && !sourcesRef.current.some((s) => s.id === current)) {
+        // The speaker left; hand over straight away
+        select(loudest, now);
+      } else if (!loudest || loudest === current) {
+        candidate = null;
+      } else if (candidate !== loudest) {
+        candidate = loudest;
+        candidateSince = now;
+      } else if (now - candidateSince >= SWITCH_AFTER_MS && now - lastSwitch >= MIN_HOLD_MS) {
+        select(loudest, now);
+      }
+    };
+
+    const interval = window.setInterval(tick, SAMPLE_INTERVAL_MS);
+    return () => {
+      window.clearInterval(interval);
+      meters.forEach(({ source }) => source.disconnect());
+      context.close();
+    };
+  }, [streamKey]);
+
+  return activeSpeakerId;
+}
@@ -0,0 +1,41 @@
+import { useEffect, useState } from "react";
+
+// Live input level of a stream's audio, 0 (silence) to 1 (full scale),
+// sampled once per animation frame through a WebAudio AnalyserNode.
+export function useAudioLevel(stream: MediaStream | null) {
+  const [level, setLevel] = useState(0);
+
+  useEffect(() => {
+    if (!stream || stream.getAudioTracks().length === 0) {
+      setLevel(0);
+      return;
+    }
+    const context = new AudioContext();
+    const source = context.createMediaStreamSource(stream);
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 512;
+    source.connect(analyser);
+    const samples = new Float32Array(analyser.fftSize);
+    let frame = 0;
+
+    const tick = () => {
+      analyser.getFloatTimeDomainData(samples);
+      let sum = 0;
+      for (const sample of samples) sum += sample * sample;
+      // RMS scaled up so normal speech fills most of a meter; rounding lets
+      // React skip renders while the level is steady
+      const rms = Math.min(1, Math.sqrt(sum / samples.length) * 4);
+      setLevel(Math.round(rms * 50) / 50);
+      frame = requestAnimationFrame(tick);
+    };
+    tick();
+
+    return () => {
+      cancelAnimationFrame(frame);
+      source.disconnect();
+      context.close();
+    };
+  }, [stream]);
+
+  return level;
+}
@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useState } from "react";
+
+interface MediaDeviceLists {
+  videoInputs: MediaDeviceInfo[];
+  audioInputs: MediaDeviceInfo[];
+  audioOutputs: MediaDeviceInfo[];
+}
+
+// Lists cameras, microphones and speakers, kept current on "devicechange".
+// Labels are empty until the page has been granted media permission, so call
+// refresh() after getUserMedia succeeds.
+export function useMediaDevices() {
+  const [devices, setDevices] = useState<MediaDeviceLists>({ videoInputs: [], audioInputs: [], audioOutputs: [] });
+
+  const refresh = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+    try {
+      const all = await navigator.mediaDevices.enumerateDevices();
+      // Entries without a deviceId appear before permission is granted
+      const usable = all.filter((d) => d.deviceId);
+      setDevices({
+        videoInputs: usable.filter((d) => d.kind === "videoinput"),
+        audioInputs: usable.filter((d) => d.kind === "audioinput"),
+        audioOutputs: usable.filter((d) => d.kind === "audiooutput"),
+      });
+    } catch (e) {
+      console.error("Error enumerating devices", e);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    if (!navigator.mediaDevices) return;
+    navigator.mediaDevices.addEventListener("devicechange", refresh);
+    return () => navigator.mediaDevices.removeEventListener("devicechange", refresh);
+  }, [refresh]);
+
+  return { ...devices, refresh };
+}
@@ -1,82 +1,471 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  createSignalingTransport,
+  type ModerationAction,
+  type SignalingStatus,
+  type SignalingTransport,
+  type SignalMessage,
+} from "@/lib/signaling";
+import { loadIceSettings, resolveRTCConfiguration, type IceServerProvider } from "@/lib/iceServers";
+import {
+  DEFAULT_MEDIA_PREFERENCES,
+  getAudioConstraints,
+  getMediaConstraints,
+  getUserMediaWithFallback,
+  getVideoConstraints,
+  type MediaIssue,
+  type MediaPreferences,
+} from "@/lib/media";
+import { scoreQuality, summarizeStats, type ConnectionQuality, type PeerStatsSample } from "@/lib/stats";
+import { createDiagnosticsRecorder, recordSignaling } from "@/lib/diagnostics";
+import {
+  createE2eeSession,
+  createEpochSecret,
+  deriveE2eeBaseKey,
+  deriveEpochKey,
+  E2EE_CHANNEL_ID,
+  E2EE_CHANNEL_LABEL,
+  parseE2eeEpoch,
+  preferE2eeCodecs,
+  supportsEncodedTransforms,
+  withEncodedTransforms,
+  type E2eeEpoch,
+  type E2eeSession,
+  type E2eeStatus,
+} from "@/lib/e2ee";
+import {
+  CHAT_CHANNEL_ID,
+  CHAT_CHANNEL_LABEL,
+  CHAT_HISTORY_BATCH_SIZE,
+  mergeChatMessages,
+  parseDataChannelMessage,
+  type ChatHandler,
+  type ChatHistoryHandler,
+  type ChatMessage,
+  type DataChannelMessage,
+} from "@/lib/chat";
+import { loadChatMessages, recordMeeting, saveChatMessages } from "@/lib/chatStore";
+import {
+  FILE_CHANNEL_ID,
+  FILE_CHANNEL_LABEL,
+  createFileTransferManager,
+  type FileTransfer,
+} from "@/lib/fileTransfer";
+import { answerChallenge, createChallenge, verifyChallengeResponse } from "@/lib/roomPassword";
 
 type ConnectionState = "disconnected" | "connecting" | "connected";
 
-type SignalMessage =
-  | { type: "join"; senderId: string; username: string }
-  | { type: "leave"; senderId: string }
-  | { type: "offer"; senderId: string; targetId: string; sdp: RTCSessionDescriptionInit; username: string }
-  | { type: "answer"; senderId: string; targetId: string; sdp: RTCSessionDescriptionInit }
-  | { type: "ice-candidate"; senderId: string; targetId: string; candidate: RTCIceCandidateInit }
-  | { type: "state"; senderId: string; audioEnabled: boolean; videoEnabled: boolean }
-  | { type: "presence-request"; senderId: string }
-  | { type: "presence-response"; senderId: string; username: string };
+type PeerConnectionStatus = "connecting" | "connected" | "reconnecting";
+
+type InputDeviceKind = "audioinput" | "videoinput";
+
+// Explicitly chosen input devices; undefined means "follow the system default"
+interface ActiveDevices {
+  audioDeviceId?: string;
+  videoDeviceId?: string;
+}
 
 interface RemoteParticipant {
   peerId: string;
   username: string;
   stream: MediaStream | null;
+  screenStream: MediaStream | null;
   audioEnabled: boolean;
   videoEnabled: boolean;
+  connectionStatus: PeerConnectionStatus;
+  // null until the first two stats samples are in
+  quality: ConnectionQuality | null;
+}
+
+// ICE restarts are attempted after 1s, 2s, 4s and 8s; a peer still not
+// connected 16s after the last attempt is removed.
+const ICE_RESTART_BASE_DELAY_MS = 1000;
+const MAX_ICE_RESTARTS = 4;
+
+const STATS_INTERVAL_MS = 2000;
+// Three minutes of samples per peer for the stats panel
+const STATS_HISTORY_LENGTH = 90;
+
+interface ReconnectState {
+  attempts: number;
+  timer: number | null;
+}
+
+// Perfect negotiation bookkeeping for one RTCPeerConnection. Politeness is
+// derived from comparing clientIds, so both sides always agree on who yields.
+interface NegotiationState {
+  polite: boolean;
+  makingOffer: boolean;
+  ignoreOffer: boolean;
+  isSettingRemoteAnswerPending: boolean;
+}
+
+// What the host did to us; the caller decides how to surface it. For
+// "removed", "ended" and "locked-out" the caller should hang up.
+export type HostActionEvent =
+  | "mute"
+  | "request-video"
+  | "removed"
+  | "ended"
+  | "locked-out"
+  | "denied"
+  | "wrong-password"
+  | "password-required";
+
+interface RoomHostState {
+  hostId: string | null;
+  locked: boolean;
+  // Newcomers wait for the host to admit them
+  waitingRoom: boolean;
+  // Newcomers must answer a password challenge before being admitted
+  passwordProtected: boolean;
+}
+
+const NO_HOST: RoomHostState = { hostId: null, locked: false, waitingRoom: false, passwordProtected: false };
+
+// "knocking" until a host answers (or nobody does), "waiting" once the host
+// has put us in the waiting room
+type AdmissionStatus = "idle" | "knocking" | "waiting" | "admitted";
+
+interface WaitingParticipant {
+  peerId: string;
+  username: string;
 }
 
-export function useWebRTC(username: string, roomId: string) {
+// Plenty for one negotiation; anything past this is dropped
+const MAX_PENDING_CANDIDATES = 100;
+
+// A knock nobody answers means there is no host to admit us
+const KNOCK_TIMEOUT_MS = 5000;
+// How long a room's creator listens for anyone already in it before hosting
+const PRESENCE_TIMEOUT_MS = 1500;
+
+// After a rotation, keep encrypting with the old key this long so the new
+// one reaches everyone before frames using it do
+const E2EE_KEY_ACTIVATION_DELAY_MS = 1000;
+
+interface HostAction {
+  event: HostActionEvent;
+  // Distinguishes repeats of the same event
+  at: number;
+}
+
+interface UseWebRTCOptions {
+  // Defaults to createSignalingTransport(roomId)
+  transport?: SignalingTransport;
+  // Extra ICE servers (e.g. short-lived TURN credentials), fetched before each
+  // peer connection is created or ICE-restarted
+  iceServerProvider?: IceServerProvider;
+  // Devices and initial mute/camera state chosen in the pre-join lobby
+  media?: MediaPreferences;
+  // Whether we start as host (the room's creator), which only happens if the
+  // room turns out to be empty. Hosting passes to another participant when the
+  // host leaves or their signaling connection closes.
+  isHost?: boolean;
+  // Key derived from the room password (see lib/roomPassword). The creator's
+  // protects the room; everyone else's answers the host's challenge, and lets
+  // them verify joiners if they become host.
+  passwordKey?: Promise<CryptoKey>;
+  // Encrypts media end to end when set; everyone in the call needs the same one
+  e2eePassphrase?: string;
+}
+
+export function useWebRTC(username: string, roomId: string, options: UseWebRTCOptions = {}) {
   const [localStream, setLocalStream] = useState<MediaStream | null>(null);
   const [remoteParticipants, setRemoteParticipants] = useState<RemoteParticipant[]>([]);
   const [connectionState, setConnectionState] = useState<ConnectionState>("disconnected");
+  const [signalingStatus, setSignalingStatus] = useState<SignalingStatus>("connected");
+  const [mediaIssue, setMediaIssue] = useState<MediaIssue | null>(null);
+  const [screenStream, setScreenStream] = useState<MediaStream | null>(null);
+  const [activeDevices, setActiveDevices] = useState<ActiveDevices>(() => ({
+    audioDeviceId: options.media?.audioDeviceId,
+    videoDeviceId: options.media?.videoDeviceId,
+  }));
+  // clientId of the participant spotlighted for everyone, possibly our own
+  const [spotlightId, setSpotlightId] = useState<string | null>(null);
+  const [hostState, setHostState] = useState<RoomHostState>(NO_HOST);
+  const [admission, setAdmission] = useState<AdmissionStatus>("idle");
+  // Knocks waiting for the host's decision
+  const [waitingParticipants, setWaitingParticipants] = useState<WaitingParticipant[]>([]);
+  const [hostAction, setHostAction] = useState<HostAction | null>(null);
+  // Recent getStats() samples per peer, oldest first
+  const [statsHistory, setStatsHistory] = useState<Record<string, PeerStatsSample[]>>({});
+  const [e2eeStatus, setE2eeStatus] = useState<E2eeStatus>("off");
+  // Chat attachments we sent or received, in the order they started
+  const [fileTransfers, setFileTransfers] = useState<FileTransfer[]>([]);
 
   const clientId = useMemo(() => Math.random().toString(36).slice(2), []);
-  const channelRef = useRef<BroadcastChannel | null>(null);
+  // Signaling, state transitions, stats and errors for the diagnostics report
+  const diagnostics = useMemo(() => createDiagnosticsRecorder(), []);
+  const transport = useMemo(
+    () => recordSignaling(options.transport ?? createSignalingTransport(roomId), diagnostics),
+    [diagnostics, options.transport, roomId],
+  );
+  const fileTransferManager = useMemo(
+    () => createFileTransferManager({ clientId, onChange: setFileTransfers }),
+    [clientId],
+  );
+  const transportRef = useRef<SignalingTransport | null>(null);
+  const unsubscribeRef = useRef<(() => void) | null>(null);
   const peersRef = useRef<Map<string, RTCPeerConnection>>(new Map());
+  const chatChannelsRef = useRef<Map<string, RTCDataChannel>>(new Map());
+  const chatHandlersRef = useRef<Set<ChatHandler>>(new Set());
+  const chatHistoryHandlersRef = useRef<Set<ChatHistoryHandler>>(new Set());
+  // Recent chat, ours included, for offering to late joiners
+  const chatLogRef = useRef<ChatMessage[]>([]);
+  // Newcomers we saw join; they get the backlog once their chat channel opens
+  const chatHistoryOwedRef = useRef<Set<string>>(new Set());
+  // Participants who were here before us, until their backlog is complete;
+  // nobody else may send us one
+  const chatHistoryExpectedRef = useRef<Set<string>>(new Set());
   const remoteStreamsRef = useRef<Map<string, MediaStream>>(new Map());
   const remoteNamesRef = useRef<Map<string, string>>(new Map());
-  const peerDisconnectTimersRef = useRef<Map<string, number>>(new Map());
+  // Id of the stream each peer announced as its screen share
+  const remoteScreenIdsRef = useRef<Map<string, string>>(new Map());
+  const screenStreamRef = useRef<MediaStream | null>(null);
+  const hostStateRef = useRef<RoomHostState>(NO_HOST);
+  const admissionRef = useRef<AdmissionStatus>("idle");
+  const knockTimerRef = useRef<number | null>(null);
+  // Knockers the host let in; only they may join while the waiting room is on
+  const admittedPeersRef = useRef<Set<string>>(new Set());
+  // Participants the host removed; their messages are ignored from then on
+  const removedPeersRef = useRef<Set<string>>(new Set());
+  const isInitialHost = options.isHost ?? false;
+  const passwordKey = options.passwordKey ?? null;
+  // Nonces we sent to knockers, by clientId
+  const challengesRef = useRef<Map<string, { nonce: string; username: string }>>(new Map());
+  const e2eePassphrase = options.e2eePassphrase;
+  const e2eeBaseKey = useMemo(
+    () => (e2eePassphrase ? deriveE2eeBaseKey(e2eePassphrase, roomId) : null),
+    [e2eePassphrase, roomId],
+  );
+  // Only set while media is being encrypted
+  const e2eeRef = useRef<E2eeSession | null>(null);
+  const e2eeEpochRef = useRef<E2eeEpoch>({ epoch: 0, secret: "" });
+  // Where the host sends each participant the secret for a new epoch
+  const e2eeChannelsRef = useRef<Map<string, RTCDataChannel>>(new Map());
+  // Keys from someone we don't know as host yet: their key can overtake the
+  // leave or host message that makes them host
+  const heldE2eeEpochsRef = useRef<Map<string, E2eeEpoch>>(new Map());
+  // Set only while the spotlight is ours to repeat to late joiners
+  const ownSpotlightRef = useRef<string | null>(null);
+  const reconnectRef = useRef<Map<string, ReconnectState>>(new Map());
+  const statsSamplesRef = useRef<Map<string, PeerStatsSample>>(new Map());
+  const negotiationRef = useRef<Map<string, NegotiationState>>(new Map());
+  // Remote candidates that arrived before the peer had a remote description
+  const pendingCandidatesRef = useRef<Map<string, (RTCIceCandidateInit | null)[]>>(new Map());
+  // Tracks published on top of the local camera/mic stream (e.g. a screen share)
+  const publishedTracksRef = useRef<Map<MediaStreamTrack, MediaStream>>(new Map());
   const localStreamRef = useRef<MediaStream | null>(null);
-  const localAudioEnabledRef = useRef<boolean>(true);
-  const localVideoEnabledRef = useRef<boolean>(true);
-
-  const configuration: RTCConfiguration = {
-    iceServers: [
-      { urls: "stun:stun.l.google.com:19302" },
-      { urls: "stun:stun1.l.google.com:19302" },
-      { urls: "stun:stun2.l.google.com:19302" },
-      { urls: "stun:stun3.l.google.com:19302" },
-      { urls: "stun:stun4.l.google.com:19302" },
-    ],
-    iceCandidatePoolSize: 10,
-  };
+  const mediaRef = useRef<MediaPreferences>(options.media ?? DEFAULT_MEDIA_PREFERENCES);
+  mediaRef.current = options.media ?? DEFAULT_MEDIA_PREFERENCES;
+  const activeDevicesRef = useRef<ActiveDevices>(activeDevices);
+  const localAudioEnabledRef = useRef<boolean>(mediaRef.current.audioEnabled);
+  const localVideoEnabledRef = useRef<boolean>(mediaRef.current.videoEnabled);
+
+  const configurationRef = useRef<RTCConfiguration>({});
+  const iceServerProvider = options.iceServerProvider;
+
+  const logError = useCallback((context: string, error: unknown) => {
+    console.error(context, error);
+    diagnostics.recordError(context, error);
+  }, [diagnostics]);
+
+  // Re-resolved before every new peer or ICE restart so expiring TURN
+  // credentials are refreshed, and settings changes apply without a reload
+  const refreshConfiguration = useCallback(async () => {
+    const configuration = await resolveRTCConfiguration(loadIceSettings(), iceServerProvider);
+    configurationRef.current = e2eeRef.current ? withEncodedTransforms(configuration) : configuration;
+    return configurationRef.current;
+  }, [iceServerProvider]);
+
+  const updateHost = useCallback((next: Partial<RoomHostState>) => {
+    hostStateRef.current = { ...hostStateRef.current, ...next };
+    setHostState(hostStateRef.current);
+  }, []);
+
+  const announceHost = useCallback(() => {
+    if (hostStateRef.current.hostId !== clientId) return;
+    transportRef.current?.send({ type: "host", senderId: clientId, ...hostStateRef.current, hostId: clientId });
+  }, [clientId]);
 
   const cleanupPeer = useCallback((peerId: string) => {
     const pc = peersRef.current.get(peerId);
     if (pc) pc.close();
     peersRef.current.delete(peerId);
+    chatChannelsRef.current.delete(peerId);
+    e2eeChannelsRef.current.delete(peerId);
+    heldE2eeEpochsRef.current.delete(peerId);
+    chatHistoryOwedRef.current.delete(peerId);
+    chatHistoryExpectedRef.current.delete(peerId);
+    fileTransferManager.removePeer(peerId);
+    negotiationRef.current.delete(peerId);
+    pendingCandidatesRef.current.delete(peerId);
+    const reconnect = reconnectRef.current.get(peerId);
+    if (reconnect?.timer) window.clearTimeout(reconnect.timer);
+    reconnectRef.current.delete(peerId);
+    setSpotlightId((current) => (current === peerId ? null : current));
+    if (ownSpotlightRef.current === peerId) ownSpotlightRef.current = null;
     const stream = remoteStreamsRef.current.get(peerId);
     if (stream) {
       stream.getTracks().forEach((t) => t.stop());
     }
     remoteStreamsRef.current.delete(peerId);
     remoteNamesRef.current.delete(peerId);
+    remoteScreenIdsRef.current.delete(peerId);
+    statsSamplesRef.current.delete(peerId);
     setRemoteParticipants((prev) => prev.filter((p) => p.peerId !== peerId));
+  }, [fileTransferManager]);
+
+  // Adds to the in-memory log and to this room's stored transcript
+  const recordChat = useCallback((messages: ChatMessage[], own: boolean) => {
+    chatLogRef.current = mergeChatMessages(chatLogRef.current, messages);
+    saveChatMessages(roomId, messages, own).catch((e) => logError("Error saving chat", e));
+  }, [logError, roomId]);
+
+  const setParticipantStatus = useCallback((peerId: string, connectionStatus: PeerConnectionStatus) => {
+    setRemoteParticipants((prev) =>
+      prev.map((p) => (p.peerId === peerId && p.connectionStatus !== connectionStatus ? { ...p, connectionStatus } : p)),
+    );
   }, []);
 
+  // Restart ICE with exponential backoff until the peer reconnects, and only
+  // give up on it once every attempt has failed
+  const scheduleIceRestart = useCallback((peerId: string) => {
+    const reconnect = reconnectRef.current.get(peerId) ?? { attempts: 0, timer: null };
+    if (reconnect.timer !== null) return;
+    reconnectRef.current.set(peerId, reconnect);
+    reconnect.timer = window.setTimeout(() => {
+      reconnect.timer = null;
+      const pc = peersRef.current.get(peerId);
+      if (!pc || pc.connectionState === "connected") return;
+      if (reconnect.attempts >= MAX_ICE_RESTARTS) {
+        console.warn(`Giving up on peer ${peerId} after ${reconnect.attempts} ICE restarts`);
+        cleanupPeer(peerId);
+        return;
+      }
+      reconnect.attempts += 1;
+      diagnostics.recordIceRestart(peerId, reconnect.attempts);
+      scheduleIceRestart(peerId);
+      refreshConfiguration()
+        .then((configuration) => pc.setConfiguration(configuration))
+        .catch((e) => logError("Error updating ICE servers", e))
+        .finally(() => {
+          // Triggers negotiationneeded, which sends an offer with fresh ICE credentials
+          if (pc.signalingState !== "closed") pc.restartIce();
+        });
+    }, ICE_RESTART_BASE_DELAY_MS * 2 ** reconnect.attempts);
+  }, [cleanupPeer, diagnostics, logError, refreshConfiguration]);
+
+  const addRemoteCandidate = useCallback(async (peerId: string, pc: RTCPeerConnection, candidate: RTCIceCandidateInit | null) => {
+    try {
+      if (candidate) await pc.addIceCandidate(candidate);
+      else await pc.addIceCandidate();
+    } catch (e) {
+      // Candidates for an offer we deliberately ignored are expected to fail
+      if (!negotiationRef.current.get(peerId)?.ignoreOffer) {
+        logError("Error adding ICE candidate", e);
+      }
+    }
+  }, [logError]);
+
+  const flushPendingCandidates = useCallback(async (peerId: string) => {
+    const pc = peersRef.current.get(peerId);
+    const pending = pendingCandidatesRef.current.get(peerId);
+    if (!pc || !pc.remoteDescription || !pending) return;
+    pendingCandidatesRef.current.delete(peerId);
+    for (const candidate of pending) {
+      await addRemoteCandidate(peerId, pc, candidate);
+    }
+  }, [addRemoteCandidate]);
+
+  // Epochs only move forward, so a late or repeated key message is harmless
+  const applyE2eeEpoch = useCallback(async (next: E2eeEpoch, activateAfterMs: number) => {
+    const session = e2eeRef.current;
+    if (!session || !e2eeBaseKey || next.epoch <= e2eeEpochRef.current.epoch) return;
+    e2eeEpochRef.current = next;
+    session.setKey(next.epoch, await deriveEpochKey(await e2eeBaseKey, next.secret), activateAfterMs);
+  }, [e2eeBaseKey]);
+
+  // A key from the host. The next epoch is a rotation everyone is going
+  // through; a jump means we're catching up with a key the others already use.
+  const receiveE2eeEpoch = useCallback((next: E2eeEpoch) => {
+    const isRotation = next.epoch === e2eeEpochRef.current.epoch + 1;
+    applyE2eeEpoch(next, isRotation ? E2EE_KEY_ACTIVATION_DELAY_MS : 0)
+      .catch((e) => logError("Error applying the media key", e));
+  }, [applyE2eeEpoch, logError]);
+
+  // Call whenever the host changes
+  const applyHeldE2eeEpoch = useCallback(() => {
+    const { hostId } = hostStateRef.current;
+    const held = hostId ? heldE2eeEpochsRef.current.get(hostId) : undefined;
+    heldE2eeEpochsRef.current.clear();
+    if (held) receiveE2eeEpoch(held);
+  }, [receiveE2eeEpoch]);
+
+  // Host only. Sent over the peer's own data channel, never over signaling.
+  const sendE2eeEpoch = useCallback((peerId: string) => {
+    if (!e2eeRef.current || hostStateRef.current.hostId !== clientId || e2eeEpochRef.current.epoch === 0) return;
+    const channel = e2eeChannelsRef.current.get(peerId);
+    if (channel?.readyState === "open") channel.send(JSON.stringify(e2eeEpochRef.current));
+  }, [clientId]);
+
   const createPeerConnection = useCallback((peerId: string) => {
-    const pc = new RTCPeerConnection(configuration);
+    const pc = new RTCPeerConnection(configurationRef.current);
     peersRef.current.set(peerId, pc);
+    const negotiation: NegotiationState = {
+      polite: clientId > peerId,
+      makingOffer: false,
+      ignoreOffer: false,
+      isSettingRemoteAnswerPending: false,
+    };
+    negotiationRef.current.set(peerId, negotiation);
+
+    // Fires for the initial offer and again whenever tracks are added or removed
+    pc.onnegotiationneeded = async () => {
+      try {
+        negotiation.makingOffer = true;
+        if (e2eeRef.current) preferE2eeCodecs(pc);
+        await pc.setLocalDescription();
+        if (transportRef.current && pc.localDescription) {
+          transportRef.current.send({
+            type: "offer",
+            senderId: clientId,
+            targetId: peerId,
+            sdp: pc.localDescription.toJSON(),
+            username,
+          });
+        }
+      } catch (e) {
+        logError("Error creating offer", e);
+      } finally {
+        negotiation.makingOffer = false;
+      }
+    };
 
     pc.onicecandidate = (event) => {
-      if (event.candidate && channelRef.current) {
+      // A null candidate marks the end of gathering; forward it so the peer
+      // can signal end-of-candidates too
+      if (transportRef.current) {
         const message: SignalMessage = {
           type: "ice-candidate",
           senderId: clientId,
           targetId: peerId,
-          candidate: event.candidate.toJSON(),
+          candidate: event.candidate ? event.candidate.toJSON() : null,
         };
-        channelRef.current.postMessage(message);
+        transportRef.current.send(message);
       }
     };
 
     pc.ontrack = (event) => {
+      e2eeRef.current?.attachReceiver(event.receiver);
       const [stream] = event.streams;
+      if (stream && stream.id === remoteScreenIdsRef.current.get(peerId)) {
+        setRemoteParticipants((prev) =>
+          prev.map((p) => (p.peerId === peerId ? { ...p, screenStream: stream } : p)),
+        );
+        return;
+      }
       if (stream) {
         remoteStreamsRef.current.set(peerId, stream);
         setRemoteParticipants((prev) => {
@@ -84,7 +473,7 @@ export function useWebRTC(username: string, roomId: string) {
           const exists = prev.some((p) => p.peerId === peerId);
           const updated = exists
             ? prev.map((p) => (p.peerId === peerId ? { ...p, stream } : p))
-            : [...prev, { peerId, username: name, stream, audioEnabled: true, videoEnabled: true }];
+            : [...prev, { peerId, username: name, stream, screenStream: null, audioEnabled: true, videoEnabled: true, connectionStatus: "connecting" as const, quality: null }];
           return updated;
         });
 
@@ -107,35 +496,93 @@ export function useWebRTC(username: string, roomId: string) {
       }
     };
 
+    // Always created, so both sides agree on the channel whether or not they
+    // encrypt; the host catches newcomers up as soon as it opens
+    const e2eeChannel = pc.createDataChannel(E2EE_CHANNEL_LABEL, {
+      negotiated: true,
+      id: E2EE_CHANNEL_ID,
+      ordered: true,
+    });
+    e2eeChannel.onopen = () => sendE2eeEpoch(peerId);
+    e2eeChannel.onmessage = (event) => {
+      const next = parseE2eeEpoch(event.data);
+      if (!next) return;
+      if (peerId === hostStateRef.current.hostId) receiveE2eeEpoch(next);
+      else heldE2eeEpochsRef.current.set(peerId, next);
+    };
+    e2eeChannelsRef.current.set(peerId, e2eeChannel);
+
+    const chatChannel = pc.createDataChannel(CHAT_CHANNEL_LABEL, {
+      negotiated: true,
+      id: CHAT_CHANNEL_ID,
+      ordered: true,
+    });
+    chatChannel.onopen = () => {
+      if (!chatHistoryOwedRef.current.delete(peerId)) return;
+      const log = chatLogRef.current;
+      // Always at least one batch, so the newcomer knows we're done even
+      // when there is nothing to send
+      let i = 0;
+      do {
+        const messages = log.slice(i, i + CHAT_HISTORY_BATCH_SIZE);
+        i += CHAT_HISTORY_BATCH_SIZE;
+        const payload: DataChannelMessage = { type: "chat-history", messages, done: i >= log.length };
+        chatChannel.send(JSON.stringify(payload));
+      } while (i < log.length);
+    };
+    chatChannel.onmessage = (event) => {
+      const parsed = parseDataChannelMessage(event.data);
+      if (!parsed) return;
+      if (parsed.type === "chat-history") {
+        if (!chatHistoryExpectedRef.current.has(peerId)) return;
+        if (parsed.done) chatHistoryExpectedRef.current.delete(peerId);
+        // We just joined with a fresh clientId, so nothing in it can be ours
+        const messages = parsed.messages.filter((m) => m.senderId !== clientId);
+        if (messages.length === 0) return;
+        // Every earlier participant offers theirs; merging drops the overlap
+        recordChat(messages, false);
+        chatHistoryHandlersRef.current.forEach((handler) => handler(messages));
+        return;
+      }
+      // Someone else's direct message has no business on our channel
+      if (parsed.message.recipientId !== undefined && parsed.message.recipientId !== clientId) return;
+      // The channel tells us who sent it; a claimed senderId could be forged
+      const message = { ...parsed.message, senderId: peerId };
+      // Direct messages stay out of the backlog and the stored transcript
+      if (message.recipientId === undefined) recordChat([message], false);
+      chatHandlersRef.current.forEach((handler) => handler(message));
+    };
+    chatChannelsRef.current.set(peerId, chatChannel);
+    fileTransferManager.addPeer(
+      peerId,
+      pc.createDataChannel(FILE_CHANNEL_LABEL, { negotiated: true, id: FILE_CHANNEL_ID, ordered: true }),
+    );
+
+    pc.oniceconnectionstatechange = () => {
+      diagnostics.recordPeerState(peerId, "iceConnectionState", pc.iceConnectionState);
+    };
+
     pc.onconnectionstatechange = () => {
+      diagnostics.recordPeerState(peerId, "connectionState", pc.connectionState);
       const states = Array.from(peersRef.current.values()).map((p) => p.connectionState);
       if (states.some((s) => s === "connected")) setConnectionState("connected");
       else if (states.some((s) => s === "connecting" || s === "new")) setConnectionState("connecting");
       else setConnectionState("disconnected");
 
-      // Per-peer cleanup logic
+      // Per-peer recovery logic
       const state = pc.connectionState;
-      if (state === "failed" || state === "closed") {
+      if (state === "closed") {
         cleanupPeer(peerId);
-      } else if (state === "disconnected") {
-        // Grace period to allow quick reconnects
-        const existing = peerDisconnectTimersRef.current.get(peerId);
-        if (existing) window.clearTimeout(existing);
-        const timer = window.setTimeout(() => {
-          // If still disconnected, cleanup
-          const current = peersRef.current.get(peerId);
-          if (!current || current.connectionState !== "connected") {
-            cleanupPeer(peerId);
-          }
-          peerDisconnectTimersRef.current.delete(peerId);
-        }, 3000);
-        peerDisconnectTimersRef.current.set(peerId, timer);
+      } else if (state === "disconnected" || state === "failed") {
+        // "disconnected" often recovers by itself; the first restart waits a
+        // beat so a short blip doesn't cost a renegotiation
+        setParticipantStatus(peerId, "reconnecting");
+        scheduleIceRestart(peerId);
       } else if (state === "connected") {
-        const existing = peerDisconnectTimersRef.current.get(peerId);
-        if (existing) {
-          window.clearTimeout(existing);
-          peerDisconnectTimersRef.current.delete(peerId);
-        }
+        const reconnect = reconnectRef.current.get(peerId);
+        if (reconnect?.timer) window.clearTimeout(reconnect.timer);
+        reconnectRef.current.delete(peerId);
+        setParticipantStatus(peerId, "connected");
       }
     };
 
@@ -143,56 +590,175 @@ export function useWebRTC(username: string, roomId: string) {
     if (localStreamRef.current) {
       localStreamRef.current.getTracks().forEach((track) => pc.addTrack(track, localStreamRef.current!));
     }
+    publishedTracksRef.current.forEach((stream, track) => pc.addTrack(track, stream));
+    pc.getSenders().forEach((sender) => e2eeRef.current?.attachSender(sender));
 
     return pc;
-  }, [clientId]);
+  }, [cleanupPeer, clientId, diagnostics, fileTransferManager, logError, receiveE2eeEpoch, recordChat, scheduleIceRestart, sendE2eeEpoch, setParticipantStatus, username]);
 
+  // Degrades from camera+mic to mic only, then to receive-only, rather than
+  // keeping the user out of the call
   const getLocalStream = useCallback(async () => {
-    try {
-      console.log("Requesting media access...");
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: { 
-          width: { ideal: 1280 },
-          height: { ideal: 720 },
-          facingMode: "user"
-        },
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true
-        },
-      });
-      console.log("Local stream obtained:", stream.getTracks());
-      setLocalStream(stream);
-      localStreamRef.current = stream;
-      return stream;
-    } catch (error) {
-      console.error("Error accessing media devices:", error);
-      setConnectionState("disconnected");
-      throw error;
-    }
+    const media = mediaRef.current;
+    console.log("Requesting media access...");
+    const { stream, issue } = await getUserMediaWithFallback(getMediaConstraints(media), logError);
+    console.log("Local stream obtained:", stream.getTracks());
+    // Honour "join muted" / "camera off" from the lobby
+    stream.getAudioTracks().forEach((t) => (t.enabled = media.audioEnabled));
+    stream.getVideoTracks().forEach((t) => (t.enabled = media.videoEnabled));
+    localAudioEnabledRef.current = media.audioEnabled && stream.getAudioTracks().length > 0;
+    localVideoEnabledRef.current = media.videoEnabled && stream.getVideoTracks().length > 0;
+    setMediaIssue(issue);
+    setLocalStream(stream);
+    localStreamRef.current = stream;
+    return stream;
+  }, [logError]);
+
+  // Host-only messages from anyone else are dropped, and so are all of them
+  // until we know who the host is
+  const isFromHost = useCallback(
+    (msg: SignalMessage) => !!hostStateRef.current.hostId && msg.senderId === hostStateRef.current.hostId,
+    [],
+  );
+
+  // Host only: move everyone still here to a key the departed can't derive
+  const rotateE2eeKey = useCallback(async () => {
+    if (!e2eeRef.current || hostStateRef.current.hostId !== clientId) return;
+    await applyE2eeEpoch(
+      { epoch: e2eeEpochRef.current.epoch + 1, secret: createEpochSecret() },
+      E2EE_KEY_ACTIVATION_DELAY_MS,
+    );
+    peersRef.current.forEach((_, peerId) => sendE2eeEpoch(peerId));
+  }, [applyE2eeEpoch, clientId, sendE2eeEpoch]);
+
+  const updateAdmission = useCallback((status: AdmissionStatus) => {
+    admissionRef.current = status;
+    setAdmission(status);
+  }, []);
+
+  const removeFromWaiting = useCallback((peerId: string) => {
+    setWaitingParticipants((prev) => prev.filter((p) => p.peerId !== peerId));
   }, []);
 
+  // Host only. Admission is broadcast so every client knows who may join.
+  const respondToKnock = useCallback((peerId: string, admitted: boolean) => {
+    if (hostStateRef.current.hostId !== clientId) return;
+    if (admitted) admittedPeersRef.current.add(peerId);
+    removeFromWaiting(peerId);
+    const members = admitted ? [clientId, ...peersRef.current.keys()] : undefined;
+    transportRef.current?.send({ type: "admission", senderId: clientId, peerId, admitted, members });
+  }, [clientId, removeFromWaiting]);
+
+  // A knock that passed any password check: queue it, or let it straight in
+  const acceptKnock = useCallback((peerId: string, knockerName: string) => {
+    setWaitingParticipants((prev) =>
+      prev.some((p) => p.peerId === peerId) ? prev : [...prev, { peerId, username: knockerName }],
+    );
+    if (hostStateRef.current.hostId === clientId && !hostStateRef.current.waitingRoom) {
+      respondToKnock(peerId, true);
+    }
+  }, [clientId, respondToKnock]);
+
   const startCall = useCallback(async () => {
     try {
       setConnectionState("connecting");
+      if (e2eeBaseKey) {
+        if (supportsEncodedTransforms()) {
+          e2eeRef.current?.close();
+          e2eeRef.current = createE2eeSession();
+          e2eeEpochRef.current = { epoch: 0, secret: "" };
+          e2eeRef.current.setKey(0, await deriveEpochKey(await e2eeBaseKey, ""));
+          setE2eeStatus("active");
+        } else {
+          // Joining unencrypted beats not joining; the UI warns about it
+          setE2eeStatus("unsupported");
+        }
+      }
+      // Back in a room we were in before: pick the transcript up again
+      try {
+        const restored = (await loadChatMessages(roomId)).map((message) => ({
+          id: message.id,
+          senderId: message.own ? clientId : message.senderId,
+          username: message.username,
+          text: message.text,
+          timestamp: message.timestamp,
+        }));
+        chatLogRef.current = mergeChatMessages(chatLogRef.current, restored);
+        // A chat view that is already open shows it like a backlog from a peer
+        if (restored.length > 0) chatHistoryHandlersRef.current.forEach((handler) => handler(restored));
+      } catch (e) {
+        logError("Error loading chat", e);
+      }
       const stream = await getLocalStream();
-      // Open signaling channel for this room
-      const channel = new BroadcastChannel(`forza-meet:${roomId}`);
-      channelRef.current = channel;
+      await refreshConfiguration();
+      // Open signaling for this room
+      await transport.connect();
+      transportRef.current = transport;
+
+      const enterRoom = () => {
+        if (knockTimerRef.current) window.clearTimeout(knockTimerRef.current);
+        knockTimerRef.current = null;
+        updateAdmission("admitted");
+        // Announce presence
+        transport.send({ type: "join", senderId: clientId, username } as SignalMessage);
+        // Also immediately publish our current state
+        transport.send({ type: "state", senderId: clientId, audioEnabled: localAudioEnabledRef.current, videoEnabled: localVideoEnabledRef.current } as SignalMessage);
+        announceHost();
+      };
 
-      const handleMessage = async (event: MessageEvent<SignalMessage>) => {
-        const msg = event.data;
+      const knock = () => {
+        updateAdmission("knocking");
+        transport.send({ type: "knock", senderId: clientId, username });
+        if (knockTimerRef.current) window.clearTimeout(knockTimerRef.current);
+        knockTimerRef.current = window.setTimeout(() => {
+          knockTimerRef.current = null;
+          if (admissionRef.current === "knocking") enterRoom();
+        }, KNOCK_TIMEOUT_MS);
+      };
+
+      // Set while the creator checks the room is empty before hosting it
+      let claimingHost = false;
+
+      const handleMessage = async (msg: SignalMessage) => {
         if (!msg || ("senderId" in msg && msg.senderId === clientId)) return;
+        if (removedPeersRef.current.has(msg.senderId)) return;
+        // Until we are in, only the host's answer to our knock matters
+        if (admissionRef.current !== "admitted" && !["host", "admission", "password-challenge", "join-rejected", "leave", "presence-response"].includes(msg.type)) return;
 
         switch (msg.type) {
           case "presence-request": {
             // Reply that we are present in this room
-            channel.postMessage({ type: "presence-response", senderId: clientId, username } as SignalMessage);
+            transport.send({ type: "presence-response", senderId: clientId, username } as SignalMessage);
+            break;
+          }
+          case "presence-response": {
+            // Someone is already in: they have a host, so we knock like anyone else
+            if (!claimingHost) break;
+            claimingHost = false;
+            knock();
             break;
           }
           case "join": {
-            // A new peer joined: create offer to them
+            // Nobody connects to newcomers while the room is locked; the host
+            // tells them why
+            if (hostStateRef.current.locked && !peersRef.current.has(msg.senderId)) {
+              if (hostStateRef.current.hostId === clientId) {
+                transport.send({ type: "join-rejected", senderId: clientId, targetId: msg.senderId, reason: "locked" });
+              }
+              break;
+            }
+            // With the waiting room or a password on, no connection is made to
+            // anyone the host hasn't admitted
+            if (
+              (hostStateRef.current.waitingRoom || hostStateRef.current.passwordProtected) &&
+              !peersRef.current.has(msg.senderId) &&
+              !admittedPeersRef.current.has(msg.senderId)
+            ) {
+              break;
+            }
+            // A new peer joined: adding our tracks triggers negotiationneeded,
+            // which sends them an offer. A repeated join means they restarted.
+            if (peersRef.current.has(msg.senderId)) cleanupPeer(msg.senderId);
             remoteNamesRef.current.set(msg.senderId, msg.username);
             setRemoteParticipants((prev) => {
               if (prev.some((p) => p.peerId === msg.senderId)) return prev;
@@ -202,21 +768,50 @@ export function useWebRTC(username: string, roomId: string) {
                   peerId: msg.senderId,
                   username: msg.username,
                   stream: remoteStreamsRef.current.get(msg.senderId) || null,
+                  screenStream: null,
                   audioEnabled: true,
                   videoEnabled: true,
+                  connectionStatus: "connecting",
+                  quality: null,
                 },
               ];
             });
+            await refreshConfiguration();
+            chatHistoryOwedRef.current.add(msg.senderId);
             const pc = createPeerConnection(msg.senderId);
-            const offer = await pc.createOffer({ offerToReceiveAudio: true, offerToReceiveVideo: true });
-            await pc.setLocalDescription(offer);
-            channel.postMessage({ type: "offer", senderId: clientId, targetId: msg.senderId, sdp: offer, username } as SignalMessage);
+            // Still receive media from them if we have no camera or mic to send
+            if (localStreamRef.current && localStreamRef.current.getAudioTracks().length === 0) {
+              pc.addTransceiver("audio", { direction: "recvonly" });
+            }
+            if (localStreamRef.current && localStreamRef.current.getVideoTracks().length === 0) {
+              pc.addTransceiver("video", { direction: "recvonly" });
+            }
             // Send our current state
-            channel.postMessage({ type: "state", senderId: clientId, audioEnabled: localAudioEnabledRef.current, videoEnabled: localVideoEnabledRef.current } as SignalMessage);
+            transport.send({ type: "state", senderId: clientId, audioEnabled: localAudioEnabledRef.current, videoEnabled: localVideoEnabledRef.current } as SignalMessage);
+            if (screenStreamRef.current) {
+              transport.send({ type: "screen-share", senderId: clientId, active: true, streamId: screenStreamRef.current.id });
+            }
+            announceHost();
+            if (ownSpotlightRef.current) {
+              transport.send({ type: "spotlight", senderId: clientId, peerId: ownSpotlightRef.current });
+            }
             break;
           }
           case "offer": {
             if (msg.targetId !== clientId) break;
+            const isNewPeer = !peersRef.current.has(msg.senderId);
+            // Offering straight away doesn't get round the knock: the same
+            // rules as for a join apply to anyone we aren't connected to yet
+            if (isNewPeer && !admittedPeersRef.current.has(msg.senderId)) {
+              const { hostId, locked, waitingRoom, passwordProtected } = hostStateRef.current;
+              if (locked && hostId === clientId) {
+                transport.send({ type: "join-rejected", senderId: clientId, targetId: msg.senderId, reason: "locked" });
+              }
+              if (locked || waitingRoom || passwordProtected) {
+                pendingCandidatesRef.current.delete(msg.senderId);
+                break;
+              }
+            }
             remoteNamesRef.current.set(msg.senderId, msg.username);
             setRemoteParticipants((prev) => {
               if (prev.some((p) => p.peerId === msg.senderId)) return prev;
@@ -226,38 +821,66 @@ export function useWebRTC(username: string, roomId: string) {
                   peerId: msg.senderId,
                   username: msg.username,
                   stream: remoteStreamsRef.current.get(msg.senderId) || null,
+                  screenStream: null,
                   audioEnabled: true,
                   videoEnabled: true,
+                  connectionStatus: "connecting",
+                  quality: null,
                 },
               ];
             });
-            const pc = createPeerConnection(msg.senderId);
-            await pc.setRemoteDescription(new RTCSessionDescription(msg.sdp));
-            const answer = await pc.createAnswer();
-            await pc.setLocalDescription(answer);
-            channel.postMessage({ type: "answer", senderId: clientId, targetId: msg.senderId, sdp: answer } as SignalMessage);
+            if (isNewPeer) {
+              // They were here first: an answer to our join, with a backlog to follow
+              chatHistoryExpectedRef.current.add(msg.senderId);
+              await refreshConfiguration();
+            }
+            const pc = peersRef.current.get(msg.senderId) ?? createPeerConnection(msg.senderId);
+            const negotiation = negotiationRef.current.get(msg.senderId)!;
+            const readyForOffer =
+              !negotiation.makingOffer &&
+              (pc.signalingState === "stable" || negotiation.isSettingRemoteAnswerPending);
+            negotiation.ignoreOffer = !negotiation.polite && !readyForOffer;
+            if (negotiation.ignoreOffer) break;
+            // On collision the polite side rolls back its own offer implicitly
+            await pc.setRemoteDescription(msg.sdp);
+            await flushPendingCandidates(msg.senderId);
+            if (e2eeRef.current) preferE2eeCodecs(pc);
+            await pc.setLocalDescription();
+            transport.send({ type: "answer", senderId: clientId, targetId: msg.senderId, sdp: pc.localDescription!.toJSON() } as SignalMessage);
             // Send our current state
-            channel.postMessage({ type: "state", senderId: clientId, audioEnabled: localAudioEnabledRef.current, videoEnabled: localVideoEnabledRef.current } as SignalMessage);
+            if (isNewPeer) {
+              transport.send({ type: "state", senderId: clientId, audioEnabled: localAudioEnabledRef.current, videoEnabled: localVideoEnabledRef.current } as SignalMessage);
+            }
             break;
           }
           case "answer": {
             if (msg.targetId !== clientId) break;
             const pc = peersRef.current.get(msg.senderId);
-            if (pc) {
-              await pc.setRemoteDescription(new RTCSessionDescription(msg.sdp));
+            const negotiation = negotiationRef.current.get(msg.senderId);
+            if (pc && negotiation) {
+              negotiation.isSettingRemoteAnswerPending = true;
+              try {
+                await pc.setRemoteDescription(msg.sdp);
+              } finally {
+                negotiation.isSettingRemoteAnswerPending = false;
+              }
+              await flushPendingCandidates(msg.senderId);
             }
             break;
           }
           case "ice-candidate": {
             if (msg.targetId !== clientId) break;
             const pc = peersRef.current.get(msg.senderId);
-            if (pc && msg.candidate) {
-              try {
-                await pc.addIceCandidate(new RTCIceCandidate(msg.candidate));
-              } catch (e) {
-                console.error("Error adding ICE candidate", e);
-              }
+            // Nothing being negotiated with them, e.g. an offer we turned away
+            if (!pc) break;
+            if (!pc.remoteDescription) {
+              // Too early: hold on to it until setRemoteDescription has run
+              const pending = pendingCandidatesRef.current.get(msg.senderId) ?? [];
+              if (pending.length < MAX_PENDING_CANDIDATES) pending.push(msg.candidate);
+              pendingCandidatesRef.current.set(msg.senderId, pending);
+              break;
             }
+            await addRemoteCandidate(msg.senderId, pc, msg.candidate);
             break;
           }
           case "state": {
@@ -266,33 +889,436 @@ export function useWebRTC(username: string, roomId: string) {
             );
             break;
           }
+          case "screen-share": {
+            if (msg.active && msg.streamId) remoteScreenIdsRef.current.set(msg.senderId, msg.streamId);
+            else remoteScreenIdsRef.current.delete(msg.senderId);
+            if (!msg.active) {
+              setRemoteParticipants((prev) =>
+                prev.map((p) => (p.peerId === msg.senderId ? { ...p, screenStream: null } : p)),
+              );
+            }
+            break;
+          }
+          case "spotlight": {
+            if (!isFromHost(msg)) break;
+            // Someone else now owns the spotlight
+            ownSpotlightRef.current = null;
+            setSpotlightId(msg.peerId);
+            break;
+          }
+          case "host": {
+            // The first announcement is taken on trust, but only from someone
+            // claiming the role for themselves; after that only the host can
+            // hand it over
+            if (hostStateRef.current.hostId ? !isFromHost(msg) : msg.hostId !== msg.senderId) break;
+            const previousHostId = hostStateRef.current.hostId;
+            updateHost({
+              hostId: msg.hostId,
+              locked: msg.locked,
+              waitingRoom: msg.waitingRoom,
+              passwordProtected: msg.passwordProtected,
+            });
+            applyHeldE2eeEpoch();
+            // Our knock went to a host who has since left; ask the new one
+            if (admissionRef.current === "waiting" && previousHostId && previousHostId !== msg.hostId) {
+              knock();
+              break;
+            }
+            // Someone is there to let us in, so stop waiting for a timeout
+            if (admissionRef.current === "knocking") {
+              if (knockTimerRef.current) window.clearTimeout(knockTimerRef.current);
+              knockTimerRef.current = null;
+              if (msg.waitingRoom) updateAdmission("waiting");
+            }
+            break;
+          }
+          case "knock": {
+            if (peersRef.current.has(msg.senderId)) break;
+            const { hostId, locked, passwordProtected } = hostStateRef.current;
+            if (hostId !== clientId) {
+              // Only the host can tell whether a knock passed the password
+              // check; a new host re-collects knocks instead
+              if (!passwordProtected) acceptKnock(msg.senderId, msg.username);
+              break;
+            }
+            if (locked) {
+              transport.send({ type: "join-rejected", senderId: clientId, targetId: msg.senderId, reason: "locked" });
+              break;
+            }
+            announceHost();
+            if (passwordKey) {
+              const nonce = createChallenge();
+              challengesRef.current.set(msg.senderId, { nonce, username: msg.username });
+              transport.send({ type: "password-challenge", senderId: clientId, targetId: msg.senderId, nonce });
+              break;
+            }
+            acceptKnock(msg.senderId, msg.username);
+            break;
+          }
+          case "password-challenge": {
+            if (msg.targetId !== clientId || !isFromHost(msg)) break;
+            if (!passwordKey) {
+              setHostAction({ event: "password-required", at: Date.now() });
+              break;
+            }
+            const proof = await answerChallenge(await passwordKey, msg.nonce, clientId);
+            transport.send({ type: "password-response", senderId: clientId, targetId: msg.senderId, proof });
+            break;
+          }
+          case "password-response": {
+            const challenge = challengesRef.current.get(msg.senderId);
+            if (msg.targetId !== clientId || !challenge || !passwordKey) break;
+            challengesRef.current.delete(msg.senderId);
+            if (await verifyChallengeResponse(await passwordKey, challenge.nonce, msg.senderId, msg.proof)) {
+              acceptKnock(msg.senderId, challenge.username);
+            } else {
+              transport.send({ type: "join-rejected", senderId: clientId, targetId: msg.senderId, reason: "wrong-password" });
+            }
+            break;
+          }
+          case "admission": {
+            if (!isFromHost(msg)) break;
+            if (msg.peerId === clientId) {
+              if (admissionRef.current === "admitted") break;
+              if (msg.admitted) {
+                msg.members?.forEach((memberId) => admittedPeersRef.current.add(memberId));
+                enterRoom();
+              } else setHostAction({ event: "denied", at: Date.now() });
+              break;
+            }
+            if (msg.admitted) admittedPeersRef.current.add(msg.peerId);
+            removeFromWaiting(msg.peerId);
+            break;
+          }
+          case "moderation": {
+            if (!isFromHost(msg)) break;
+            if (msg.action === "remove") {
+              if (msg.peerId === clientId) {
+                setHostAction({ event: "removed", at: Date.now() });
+              } else {
+                removedPeersRef.current.add(msg.peerId);
+                cleanupPeer(msg.peerId);
+              }
+            } else if (msg.peerId === clientId) {
+              setHostAction({ event: msg.action, at: Date.now() });
+            }
+            break;
+          }
+          case "join-rejected": {
+            if (msg.targetId !== clientId) break;
+            setHostAction({ event: msg.reason === "locked" ? "locked-out" : "wrong-password", at: Date.now() });
+            break;
+          }
+          case "end-meeting": {
+            if (isFromHost(msg)) setHostAction({ event: "ended", at: Date.now() });
+            break;
+          }
           case "leave": {
-            const pc = peersRef.current.get(msg.senderId);
-            if (pc) pc.close();
-            peersRef.current.delete(msg.senderId);
-            remoteStreamsRef.current.delete(msg.senderId);
-            remoteNamesRef.current.delete(msg.senderId);
-            setRemoteParticipants((prev) => prev.filter((p) => p.peerId !== msg.senderId));
+            const wasConnected = peersRef.current.has(msg.senderId);
+            cleanupPeer(msg.senderId);
+            removeFromWaiting(msg.senderId);
+            challengesRef.current.delete(msg.senderId);
+            // Hosting passes to the remaining participant with the lowest
+            // clientId, which every client works out the same way. Only a
+            // leave counts, whether the host sent it or the server did when
+            // their socket closed: a link that failed on our side alone says
+            // nothing about the others. Anyone still waiting to be let in
+            // has no say.
+            if (msg.senderId === hostStateRef.current.hostId && admissionRef.current === "admitted") {
+              const [nextHostId] = [clientId, ...peersRef.current.keys()].sort();
+              updateHost({ hostId: nextHostId });
+              announceHost();
+              applyHeldE2eeEpoch();
+            } else if (
+              msg.senderId === hostStateRef.current.hostId &&
+              (admissionRef.current === "knocking" || admissionRef.current === "waiting")
+            ) {
+              // From outside we can't tell who is left to take over, so the
+              // next host to announce themselves is taken on trust; our knock
+              // went to the one who left, so ask again
+              updateHost({ hostId: null });
+              knock();
+            }
+            if (wasConnected) await rotateE2eeKey();
             break;
           }
         }
       };
 
-      channel.addEventListener("message", handleMessage as EventListener);
+      // Handle messages strictly in arrival order; negotiation depends on it
+      let queue = Promise.resolve();
+      unsubscribeRef.current?.();
+      const unsubscribeMessages = transport.subscribe((msg) => {
+        queue = queue
+          .then(() => handleMessage(msg))
+          .catch((e) => logError("Error handling signaling message", e));
+      });
+      const unsubscribeStatus = transport.onStatus((status) => {
+        setSignalingStatus(status);
+        if (status !== "connected") return;
+        // The relay told everyone we left when the socket dropped, hosting
+        // included, so knock again as a newcomer
+        queue = queue.then(() => {
+          Array.from(peersRef.current.keys()).forEach(cleanupPeer);
+          updateHost({ hostId: null });
+          setWaitingParticipants([]);
+          knock();
+        }).catch((e) => logError("Error rejoining after signaling reconnect", e));
+      });
+      unsubscribeRef.current = () => {
+        unsubscribeMessages();
+        unsubscribeStatus();
+      };
 
-      // Announce presence
-      channel.postMessage({ type: "join", senderId: clientId, username } as SignalMessage);
-      // Also immediately publish our current state
-      channel.postMessage({ type: "state", senderId: clientId, audioEnabled: localAudioEnabledRef.current, videoEnabled: localVideoEnabledRef.current } as SignalMessage);
+      if (isInitialHost) {
+        // Only an empty room is ours to host. After a reload, the others
+        // have already passed hosting on and answer the presence request.
+        claimingHost = true;
+        transport.send({ type: "presence-request", senderId: clientId });
+        knockTimerRef.current = window.setTimeout(() => {
+          knockTimerRef.current = null;
+          if (!claimingHost) return;
+          claimingHost = false;
+          updateHost({ hostId: clientId, passwordProtected: !!passwordKey });
+          enterRoom();
+        }, PRESENCE_TIMEOUT_MS);
+      } else {
+        // Ask the host to let us in before any connection is made
+        knock();
+      }
 
       // Cleanup listener on unmount/leave handled in hangUp
     } catch (error) {
-      console.error("Error starting call:", error);
+      logError("Error starting call:", error);
       setConnectionState("disconnected");
     }
-  }, [clientId, createPeerConnection, getLocalStream, roomId, username]);
+  }, [acceptKnock, addRemoteCandidate, announceHost, applyHeldE2eeEpoch, cleanupPeer, clientId, createPeerConnection, e2eeBaseKey, flushPendingCandidates, getLocalStream, isFromHost, isInitialHost, logError, passwordKey, refreshConfiguration, removeFromWaiting, roomId, rotateE2eeKey, transport, updateAdmission, updateHost, username]);
+
+  // Delivered to every peer whose chat channel is open, or only to
+  // recipientId for a direct message; returns the message so the caller can
+  // show it locally, or null if a direct message couldn't be delivered
+  const sendChat = useCallback((text: string, recipientId?: string): ChatMessage | null => {
+    const message: ChatMessage = {
+      id: crypto.randomUUID(),
+      senderId: clientId,
+      username,
+      text,
+      timestamp: Date.now(),
+      recipientId,
+    };
+    const payload: DataChannelMessage = { type: "chat", message };
+    const data = JSON.stringify(payload);
+    if (recipientId !== undefined) {
+      const channel = chatChannelsRef.current.get(recipientId);
+      if (channel?.readyState !== "open") return null;
+      channel.send(data);
+      return message;
+    }
+    chatChannelsRef.current.forEach((channel) => {
+      if (channel.readyState === "open") channel.send(data);
+    });
+    recordChat([message], true);
+    return message;
+  }, [clientId, recordChat, username]);
+
+  // Subscribe to chat from other participants; returns an unsubscribe function
+  const onChat = useCallback((handler: ChatHandler) => {
+    chatHandlersRef.current.add(handler);
+    return () => {
+      chatHandlersRef.current.delete(handler);
+    };
+  }, []);
+
+  // Subscribe to backlogs offered when we join mid-meeting, and to the stored
+  // transcript when we rejoin a room. They may arrive in several batches,
+  // from several participants, overlapping.
+  const onChatHistory = useCallback((handler: ChatHistoryHandler) => {
+    chatHistoryHandlersRef.current.add(handler);
+    return () => {
+      chatHistoryHandlersRef.current.delete(handler);
+    };
+  }, []);
+
+  // Sends a chat attachment to everyone in the call; see lib/fileTransfer
+  const sendFile = useCallback((file: File) => {
+    fileTransferManager.send(file, username).catch((e) => logError("Error sending file", e));
+  }, [fileTransferManager, logError, username]);
+
+  const cancelFileTransfer = useCallback((id: string) => {
+    fileTransferManager.cancel(id);
+  }, [fileTransferManager]);
+
+  // Current chat log, oldest first, e.g. to fill a chat view when it mounts
+  const getChatLog = useCallback(() => chatLogRef.current, []);
+
+  // Publish an extra track (e.g. a screen share) to every peer; renegotiates
+  const addTrack = useCallback((track: MediaStreamTrack, stream: MediaStream) => {
+    publishedTracksRef.current.set(track, stream);
+    peersRef.current.forEach((pc) => {
+      const sender = pc.addTrack(track, stream);
+      e2eeRef.current?.attachSender(sender);
+    });
+  }, []);
+
+  const removeTrack = useCallback((track: MediaStreamTrack) => {
+    publishedTracksRef.current.delete(track);
+    peersRef.current.forEach((pc) => {
+      pc.getSenders()
+        .filter((sender) => sender.track === track)
+        .forEach((sender) => pc.removeTrack(sender));
+    });
+  }, []);
+
+  // Swap a track on every peer in place (e.g. a device switch); no renegotiation
+  const replaceTrack = useCallback(async (oldTrack: MediaStreamTrack, newTrack: MediaStreamTrack) => {
+    const senders = Array.from(peersRef.current.values()).flatMap((pc) =>
+      pc.getSenders().filter((sender) => sender.track === oldTrack),
+    );
+    await Promise.all(senders.map((sender) => sender.replaceTrack(newTrack)));
+    const stream = publishedTracksRef.current.get(oldTrack);
+    if (stream) {
+      publishedTracksRef.current.delete(oldTrack);
+      publishedTracksRef.current.set(newTrack, stream);
+    }
+  }, []);
+
+  const stopScreenShare = useCallback(() => {
+    const stream = screenStreamRef.current;
+    if (!stream) return;
+    screenStreamRef.current = null;
+    setScreenStream(null);
+    stream.getTracks().forEach((track) => {
+      removeTrack(track);
+      track.stop();
+    });
+    transportRef.current?.send({ type: "screen-share", senderId: clientId, active: false, streamId: null });
+  }, [clientId, removeTrack]);
+
+  // Shares a screen alongside the camera. The announcement goes out before
+  // the tracks are added so it reaches peers ahead of the renegotiation offer.
+  const startScreenShare = useCallback(async () => {
+    if (screenStreamRef.current) return;
+    const stream = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: true });
+    screenStreamRef.current = stream;
+    setScreenStream(stream);
+    transportRef.current?.send({ type: "screen-share", senderId: clientId, active: true, streamId: stream.id });
+    stream.getTracks().forEach((track) => addTrack(track, stream));
+    // The browser's own "Stop sharing" button ends the video track
+    stream.getVideoTracks()[0]?.addEventListener("ended", stopScreenShare);
+  }, [addTrack, clientId, stopScreenShare]);
+
+  // Host controls. Other clients enforce them; see the "moderation" handler.
+  const moderate = useCallback((peerId: string, action: ModerationAction) => {
+    if (hostStateRef.current.hostId !== clientId) return;
+    transportRef.current?.send({ type: "moderation", senderId: clientId, peerId, action });
+    if (action === "remove") {
+      removedPeersRef.current.add(peerId);
+      cleanupPeer(peerId);
+      rotateE2eeKey().catch((e) => logError("Error rotating the media key", e));
+    }
+  }, [cleanupPeer, clientId, logError, rotateE2eeKey]);
+
+  const transferHost = useCallback((peerId: string) => {
+    if (hostStateRef.current.hostId !== clientId) return;
+    transportRef.current?.send({ type: "host", senderId: clientId, ...hostStateRef.current, hostId: peerId });
+    updateHost({ hostId: peerId });
+  }, [clientId, updateHost]);
+
+  const setRoomLocked = useCallback((locked: boolean) => {
+    if (hostStateRef.current.hostId !== clientId) return;
+    updateHost({ locked });
+    announceHost();
+  }, [announceHost, clientId, updateHost]);
+
+  const setWaitingRoomEnabled = useCallback((waitingRoom: boolean) => {
+    if (hostStateRef.current.hostId !== clientId) return;
+    updateHost({ waitingRoom });
+    announceHost();
+  }, [announceHost, clientId, updateHost]);
+
+  const endMeeting = useCallback(() => {
+    if (hostStateRef.current.hostId !== clientId) return;
+    transportRef.current?.send({ type: "end-meeting", senderId: clientId });
+  }, [clientId]);
+
+  // Feature a participant (or ourselves, by clientId) for everyone in the room
+  // Host only; receivers drop a spotlight from anyone else (see "spotlight")
+  const setSpotlight = useCallback((peerId: string | null) => {
+    if (hostStateRef.current.hostId !== clientId) return;
+    ownSpotlightRef.current = peerId;
+    setSpotlightId(peerId);
+    transportRef.current?.send({ type: "spotlight", senderId: clientId, peerId });
+  }, [clientId]);
+
+  // Move the call to another camera or microphone. Existing peers get the new
+  // track through replaceTrack, so no renegotiation is needed.
+  const switchDevice = useCallback(async (kind: InputDeviceKind, deviceId?: string) => {
+    const stream = localStreamRef.current;
+    if (!stream) return;
+    const isVideo = kind === "videoinput";
+    const captured = await navigator.mediaDevices.getUserMedia(
+      isVideo ? { video: getVideoConstraints(deviceId) } : { audio: getAudioConstraints(deviceId) },
+    );
+    const [newTrack] = isVideo ? captured.getVideoTracks() : captured.getAudioTracks();
+    const [oldTrack] = isVideo ? stream.getVideoTracks() : stream.getAudioTracks();
+    newTrack.enabled = isVideo ? localVideoEnabledRef.current : localAudioEnabledRef.current;
+
+    if (oldTrack) {
+      await replaceTrack(oldTrack, newTrack);
+      oldTrack.stop();
+    } else {
+      // Nothing to replace (we joined without this kind of device): add it
+      peersRef.current.forEach((pc) => {
+        const sender = pc.addTrack(newTrack, stream);
+        e2eeRef.current?.attachSender(sender);
+      });
+    }
 
-  // No external signaling handler needed; handled via BroadcastChannel
+    // A fresh MediaStream so the local preview re-renders with the new track
+    const next = new MediaStream([...stream.getTracks().filter((t) => t !== oldTrack), newTrack]);
+    localStreamRef.current = next;
+    setLocalStream(next);
+    if (next.getAudioTracks().length > 0 && next.getVideoTracks().length > 0) setMediaIssue(null);
+    activeDevicesRef.current = { ...activeDevicesRef.current, [isVideo ? "videoDeviceId" : "audioDeviceId"]: deviceId };
+    setActiveDevices(activeDevicesRef.current);
+  }, [replaceTrack]);
+
+  // Follow devices being plugged in or out: fall back to the default when the
+  // device in use disappears, and follow the system default (e.g. a headset
+  // that was just connected) when the user hasn't picked a device explicitly.
+  useEffect(() => {
+    if (!navigator.mediaDevices) return;
+    const handleDeviceChange = async () => {
+      const stream = localStreamRef.current;
+      if (!stream) return;
+      const devices = await navigator.mediaDevices.enumerateDevices();
+      const needsSwitch = (kind: InputDeviceKind, track: MediaStreamTrack | undefined, chosenId?: string) => {
+        if (!track) return false;
+        const available = devices.filter((d) => d.kind === kind);
+        const settings = track.getSettings();
+        if (track.readyState === "ended" || !available.some((d) => d.deviceId === settings.deviceId)) return true;
+        // The first device listed is the system default
+        return !chosenId && available.length > 0 && available[0].groupId !== settings.groupId;
+      };
+      const { audioDeviceId, videoDeviceId } = activeDevicesRef.current;
+      const audioTrack = stream.getAudioTracks()[0];
+      const videoTrack = stream.getVideoTracks()[0];
+      try {
+        if (needsSwitch("audioinput", audioTrack, audioDeviceId)) {
+          const stillThere = devices.some((d) => d.kind === "audioinput" && d.deviceId === audioDeviceId);
+          await switchDevice("audioinput", stillThere ? audioDeviceId : undefined);
+        }
+        if (needsSwitch("videoinput", videoTrack, videoDeviceId)) {
+          const stillThere = devices.some((d) => d.kind === "videoinput" && d.deviceId === videoDeviceId);
+          await switchDevice("videoinput", stillThere ? videoDeviceId : undefined);
+        }
+      } catch (e) {
+        logError("Error following device change", e);
+      }
+    };
+    navigator.mediaDevices.addEventListener("devicechange", handleDeviceChange);
+    return () => navigator.mediaDevices.removeEventListener("devicechange", handleDeviceChange);
+  }, [logError, switchDevice]);
 
   const toggleAudio = useCallback(() => {
     if (localStreamRef.current) {
@@ -300,8 +1326,8 @@ export function useWebRTC(username: string, roomId: string) {
       if (audioTrack) {
         audioTrack.enabled = !audioTrack.enabled;
         localAudioEnabledRef.current = audioTrack.enabled;
-        if (channelRef.current) {
-          channelRef.current.postMessage({
+        if (transportRef.current) {
+          transportRef.current.send({
             type: "state",
             senderId: clientId,
             audioEnabled: localAudioEnabledRef.current,
@@ -318,8 +1344,8 @@ export function useWebRTC(username: string, roomId: string) {
       if (videoTrack) {
         videoTrack.enabled = !videoTrack.enabled;
         localVideoEnabledRef.current = videoTrack.enabled;
-        if (channelRef.current) {
-          channelRef.current.postMessage({
+        if (transportRef.current) {
+          transportRef.current.send({
             type: "state",
             senderId: clientId,
             audioEnabled: localAudioEnabledRef.current,
@@ -332,15 +1358,32 @@ export function useWebRTC(username: string, roomId: string) {
 
   const hangUp = useCallback(() => {
     // Notify others
-    if (channelRef.current) {
-      channelRef.current.postMessage({ type: "leave", senderId: clientId } as SignalMessage);
-      channelRef.current.close();
-      channelRef.current = null;
+    if (transportRef.current) {
+      transportRef.current.send({ type: "leave", senderId: clientId } as SignalMessage);
+      unsubscribeRef.current?.();
+      unsubscribeRef.current = null;
+      transportRef.current.close();
+      transportRef.current = null;
     }
 
     // Close all peer connections
     peersRef.current.forEach((pc) => pc.close());
     peersRef.current.clear();
+    chatChannelsRef.current.clear();
+    e2eeChannelsRef.current.clear();
+    heldE2eeEpochsRef.current.clear();
+    chatHistoryOwedRef.current.clear();
+    chatHistoryExpectedRef.current.clear();
+    chatLogRef.current = [];
+    fileTransferManager.clear();
+    setFileTransfers([]);
+    negotiationRef.current.clear();
+    pendingCandidatesRef.current.clear();
+    publishedTracksRef.current.clear();
+    reconnectRef.current.forEach((reconnect) => {
+      if (reconnect.timer) window.clearTimeout(reconnect.timer);
+    });
+    reconnectRef.current.clear();
 
     // Stop local stream
     if (localStreamRef.current) {
@@ -348,20 +1391,96 @@ export function useWebRTC(username: string, roomId: string) {
       localStreamRef.current = null;
     }
 
+    if (screenStreamRef.current) {
+      screenStreamRef.current.getTracks().forEach((track) => track.stop());
+      screenStreamRef.current = null;
+    }
+
     // Reset state
     setLocalStream(null);
+    setScreenStream(null);
     setRemoteParticipants([]);
     setConnectionState("disconnected");
+    setSignalingStatus("connected");
     remoteStreamsRef.current.clear();
     remoteNamesRef.current.clear();
-  }, [clientId]);
+    remoteScreenIdsRef.current.clear();
+    statsSamplesRef.current.clear();
+    setStatsHistory({});
+    ownSpotlightRef.current = null;
+    setSpotlightId(null);
+    removedPeersRef.current.clear();
+    updateHost(NO_HOST);
+    if (knockTimerRef.current) window.clearTimeout(knockTimerRef.current);
+    knockTimerRef.current = null;
+    updateAdmission("idle");
+    admittedPeersRef.current.clear();
+    challengesRef.current.clear();
+    e2eeRef.current?.close();
+    e2eeRef.current = null;
+    e2eeEpochRef.current = { epoch: 0, secret: "" };
+    setE2eeStatus("off");
+    setWaitingParticipants([]);
+  }, [clientId, fileTransferManager, updateAdmission, updateHost]);
+
+  // Remember the meeting and who was in it for the landing page's past meetings
+  const participantNames = remoteParticipants
+    .map((p) => p.username)
+    .filter(Boolean)
+    .sort()
+    .join("\n");
+  useEffect(() => {
+    if (admission !== "admitted") return;
+    recordMeeting(roomId, [username, ...participantNames.split("\n").filter(Boolean)]).catch((e) =>
+      logError("Error saving meeting", e),
+    );
+  }, [admission, logError, participantNames, roomId, username]);
+
+  // Sample getStats() for every peer and turn it into a quality indicator
+  useEffect(() => {
+    if (connectionState === "disconnected") return;
+    const poll = async () => {
+      const entries = Array.from(peersRef.current.entries());
+      const results = await Promise.all(
+        entries.map(async ([peerId, pc]) => {
+          try {
+            const sample = summarizeStats(await pc.getStats(), statsSamplesRef.current.get(peerId));
+            const hadPrevious = statsSamplesRef.current.has(peerId);
+            statsSamplesRef.current.set(peerId, sample);
+            diagnostics.recordStats(peerId, sample);
+            return [peerId, hadPrevious ? sample : null] as const;
+          } catch (e) {
+            logError("Error reading stats", e);
+            return [peerId, null] as const;
+          }
+        }),
+      );
+      const samples = new Map(results.filter((entry): entry is [string, PeerStatsSample] => entry[1] !== null));
+      if (samples.size === 0) return;
+      setRemoteParticipants((prev) =>
+        prev.map((p) => (samples.has(p.peerId) ? { ...p, quality: scoreQuality(samples.get(p.peerId)!) } : p)),
+      );
+      setStatsHistory((prev) => {
+        const next: Record<string, PeerStatsSample[]> = {};
+        // Peers that have left drop out of the history here
+        peersRef.current.forEach((_, peerId) => {
+          const history = prev[peerId] ?? [];
+          const sample = samples.get(peerId);
+          next[peerId] = sample ? [...history, sample].slice(-STATS_HISTORY_LENGTH) : history;
+        });
+        return next;
+      });
+    };
+    const interval = window.setInterval(poll, STATS_INTERVAL_MS);
+    return () => window.clearInterval(interval);
+  }, [connectionState, diagnostics, logError]);
 
   // Ensure we broadcast leave on tab close/reload to help peers cleanup tiles
   useEffect(() => {
     const handler = () => {
       try {
-        if (channelRef.current) {
-          channelRef.current.postMessage({ type: "leave", senderId: clientId } as SignalMessage);
+        if (transportRef.current) {
+          transportRef.current.send({ type: "leave", senderId: clientId } as SignalMessage);
         }
       } catch {}
     };
@@ -380,9 +1499,45 @@ export function useWebRTC(username: string, roomId: string) {
     localStream,
     remoteParticipants,
     connectionState,
+    signalingStatus,
+    clientId,
     startCall,
     toggleAudio,
     toggleVideo,
+    addTrack,
+    removeTrack,
+    replaceTrack,
+    mediaIssue,
+    screenStream,
+    startScreenShare,
+    stopScreenShare,
+    activeDevices,
+    switchDevice,
+    statsHistory,
+    e2eeStatus,
+    sendChat,
+    onChat,
+    onChatHistory,
+    getChatLog,
+    fileTransfers,
+    sendFile,
+    cancelFileTransfer,
+    diagnostics,
+    spotlightId,
+    setSpotlight,
+    hostId: hostState.hostId,
+    isHost: hostState.hostId === clientId,
+    roomLocked: hostState.locked,
+    waitingRoomEnabled: hostState.waitingRoom,
+    setWaitingRoomEnabled,
+    admission,
+    waitingParticipants,
+    respondToKnock,
+    hostAction,
+    moderate,
+    transferHost,
+    setRoomLocked,
+    endMeeting,
     hangUp,
   };
 }
\ No newline at end of file
@@ -0,0 +1,85 @@
+// Chat travels peer to peer over an ordered RTCDataChannel that useWebRTC
+// opens alongside each peer connection, never through the signaling server.
+
+export interface ChatMessage {
+  id: string;
+  // clientId of the author
+  senderId: string;
+  username: string;
+  text: string;
+  timestamp: number; // epoch ms
+  // clientId of the one participant a direct message is for; absent when
+  // it's for the whole room
+  recipientId?: string;
+}
+
+export type ChatHandler = (message: ChatMessage) => void;
+
+export type ChatHistoryHandler = (messages: ChatMessage[]) => void;
+
+// Everything sent on the chat data channel
+export type DataChannelMessage =
+  | { type: "chat"; message: ChatMessage }
+  // The backlog offered to someone who joined mid-meeting, oldest first.
+  // Direct messages are never part of it. done marks the last batch.
+  | { type: "chat-history"; messages: ChatMessage[]; done: boolean };
+
+// Most recent messages each participant keeps and offers to late joiners
+export const CHAT_HISTORY_LIMIT = 200;
+// Messages per chat-history message, keeping each well under the SCTP
+// message size limit
+export const CHAT_HISTORY_BATCH_SIZE = 50;
+
+// Both sides create the channel with the same id instead of announcing it,
+// so it works whichever side makes the offer
+export const CHAT_CHANNEL_LABEL = "chat";
+export const CHAT_CHANNEL_ID = 0;
+
+const isChatMessage = (value: unknown): value is ChatMessage => {
+  if (!value || typeof value !== "object") return false;
+  const v = value as Record<string, unknown>;
+  return (
+    typeof v.id === "string" &&
+    typeof v.senderId === "string" &&
+    typeof v.username === "string" &&
+    typeof v.text === "string" &&
+    typeof v.timestamp === "number" &&
+    (v.recipientId === undefined || typeof v.recipientId === "string")
+  );
+};
+
+// Data from a peer is untrusted; anything malformed is dropped
+export function parseDataChannelMessage(data: unknown): DataChannelMessage | null {
+  if (typeof data !== "string") return null;
+  try {
+    const parsed = JSON.parse(data) as { type?: unknown; message?: unknown; messages?: unknown; done?: unknown };
+    if (parsed.type === "chat" && isChatMessage(parsed.message)) {
+      return { type: "chat", message: parsed.message };
+    }
+    if (parsed.type === "chat-history" && Array.isArray(parsed.messages)) {
+      const messages = parsed.messages.filter((m): m is ChatMessage => isChatMessage(m) && m.recipientId === undefined);
+      return { type: "chat-history", messages: messages.slice(-CHAT_HISTORY_LIMIT), done: parsed.done === true };
+    }
+  } catch {
+    // Not JSON
+  }
+  return null;
+}
+
+// Merges by id and orders by timestamp, keeping only the newest `limit`
+export function mergeChatMessages<T extends Pick<ChatMessage, "id" | "timestamp">>(
+  existing: T[],
+  incoming: T[],
+  limit = CHAT_HISTORY_LIMIT,
+): T[] {
+  const ids = new Set(existing.map((m) => m.id));
+  const added = incoming.filter((m) => {
+    if (ids.has(m.id)) return false;
+    ids.add(m.id);
+    return true;
+  });
+  if (added.length === 0) return existing;
+  return [...existing, ...added]
+    .sort((a, b) => a.timestamp - b.timestamp || a.id.localeCompare(b.id))
+    .slice(-limit);
+}
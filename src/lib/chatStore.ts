@@ -0,0 +1,141 @@
+// Chat transcripts, kept per room in IndexedDB so they survive reloads and
+// can be read back from the landing page. Nothing here leaves the browser.
+import type { ChatMessage } from "./chat";
+
+export interface MeetingRecord {
+  roomId: string;
+  firstJoinedAt: number;
+  lastActiveAt: number;
+  // Display names seen in the meeting, ours included
+  participants: string[];
+}
+
+export interface StoredChatMessage extends ChatMessage {
+  roomId: string;
+  // Written by us; our clientId changes every call, so it can't tell us this
+  own: boolean;
+}
+
+const DB_NAME = "forza-meet";
+const DB_VERSION = 1;
+const MEETINGS_STORE = "meetings";
+const MESSAGES_STORE = "messages";
+
+const RETENTION_KEY = "forza-meet:chat-retention-days";
+const DEFAULT_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(MEETINGS_STORE, { keyPath: "roomId" });
+        db.createObjectStore(MESSAGES_STORE, { keyPath: ["roomId", "id"] });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((e) => {
+      // Let the next call try again, e.g. after the user allowed storage
+      databasePromise = null;
+      throw e;
+    });
+  }
+  return databasePromise;
+}
+
+const requestResult = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+// Every message key in a room: [roomId, id] sorts after [roomId], and arrays
+// sort after strings, so [roomId, []] is above any message id
+const roomMessages = (roomId: string) => IDBKeyRange.bound([roomId], [roomId, []]);
+
+export async function loadChatMessages(roomId: string): Promise<StoredChatMessage[]> {
+  const db = await openDatabase();
+  const store = db.transaction(MESSAGES_STORE).objectStore(MESSAGES_STORE);
+  const messages = (await requestResult(store.getAll(roomMessages(roomId)))) as StoredChatMessage[];
+  return messages.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+// Messages already stored are left as they are, so a backlog echoing our own
+// messages back doesn't lose their `own` flag
+export async function saveChatMessages(roomId: string, messages: ChatMessage[], own: boolean) {
+  if (messages.length === 0) return;
+  const db = await openDatabase();
+  const transaction = db.transaction(MESSAGES_STORE, "readwrite");
+  const store = transaction.objectStore(MESSAGES_STORE);
+  messages.forEach((message) => {
+    const record: StoredChatMessage = { ...message, roomId, own };
+    const request = store.add(record);
+    // A duplicate key fails only this request instead of the whole transaction
+    request.onerror = (event) => event.preventDefault();
+  });
+  await transactionDone(transaction);
+}
+
+export async function recordMeeting(roomId: string, participants: string[]) {
+  const db = await openDatabase();
+  const transaction = db.transaction(MEETINGS_STORE, "readwrite");
+  const store = transaction.objectStore(MEETINGS_STORE);
+  const existing = (await requestResult(store.get(roomId))) as MeetingRecord | undefined;
+  const now = Date.now();
+  const record: MeetingRecord = {
+    roomId,
+    firstJoinedAt: existing?.firstJoinedAt ?? now,
+    lastActiveAt: now,
+    participants: Array.from(new Set([...(existing?.participants ?? []), ...participants])),
+  };
+  store.put(record);
+  await transactionDone(transaction);
+}
+
+// Most recent first
+export async function listMeetings(): Promise<MeetingRecord[]> {
+  const db = await openDatabase();
+  const store = db.transaction(MEETINGS_STORE).objectStore(MEETINGS_STORE);
+  const meetings = (await requestResult(store.getAll())) as MeetingRecord[];
+  return meetings.sort((a, b) => b.lastActiveAt - a.lastActiveAt);
+}
+
+export async function deleteMeeting(roomId: string) {
+  const db = await openDatabase();
+  const transaction = db.transaction([MEETINGS_STORE, MESSAGES_STORE], "readwrite");
+  transaction.objectStore(MEETINGS_STORE).delete(roomId);
+  transaction.objectStore(MESSAGES_STORE).delete(roomMessages(roomId));
+  await transactionDone(transaction);
+}
+
+// Deletes meetings nobody has been active in for longer than the retention period
+export async function pruneMeetings(retentionDays: number | null) {
+  if (retentionDays === null) return;
+  const cutoff = Date.now() - retentionDays * DAY_MS;
+  const expired = (await listMeetings()).filter((meeting) => meeting.lastActiveAt < cutoff);
+  for (const meeting of expired) await deleteMeeting(meeting.roomId);
+}
+
+// null keeps transcripts until they are deleted by hand
+export function loadChatRetentionDays(): number | null {
+  const stored = window.localStorage.getItem(RETENTION_KEY);
+  if (stored === null) return DEFAULT_RETENTION_DAYS;
+  if (stored === "forever") return null;
+  const days = Number(stored);
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+export function saveChatRetentionDays(days: number | null) {
+  window.localStorage.setItem(RETENTION_KEY, days === null ? "forever" : String(days));
+}
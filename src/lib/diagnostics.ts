@@ -0,0 +1,202 @@
+// Collects what happened during a call so it can be exported as a JSON report
+// and attached to a bug report. Everything stays in memory until exported.
+import type { SignalingTransport, SignalMessage } from "./signaling";
+import type { PeerStatsSample } from "./stats";
+import { getMediaConstraints, supportsAudioOutputSelection, type MediaPreferences } from "./media";
+
+export type DiagnosticsEvent =
+  | { at: number; kind: "signal"; direction: "sent" | "received"; message: SignalMessage }
+  | {
+      at: number;
+      kind: "peer-state";
+      peerId: string;
+      property: "connectionState" | "iceConnectionState";
+      state: string;
+    }
+  | { at: number; kind: "ice-restart"; peerId: string; attempt: number }
+  | { at: number; kind: "error"; context: string; error: string };
+
+export interface StatsSnapshot {
+  at: number;
+  peerId: string;
+  sample: PeerStatsSample;
+}
+
+export interface DiagnosticsRecorder {
+  recordSignal: (direction: "sent" | "received", message: SignalMessage) => void;
+  recordPeerState: (peerId: string, property: "connectionState" | "iceConnectionState", state: string) => void;
+  recordStats: (peerId: string, sample: PeerStatsSample) => void;
+  recordIceRestart: (peerId: string, attempt: number) => void;
+  recordError: (context: string, error: unknown) => void;
+  getEvents: () => DiagnosticsEvent[];
+  getStats: () => StatsSnapshot[];
+  clear: () => void;
+}
+
+// Oldest entries are dropped beyond these, so a long call can't grow unbounded
+const MAX_EVENTS = 5000;
+const MAX_STATS_SNAPSHOTS = 3000;
+
+const describeError = (error: unknown) =>
+  error instanceof Error || error instanceof DOMException ? `${error.name}: ${error.message}` : String(error);
+
+export function createDiagnosticsRecorder(): DiagnosticsRecorder {
+  let events: DiagnosticsEvent[] = [];
+  let stats: StatsSnapshot[] = [];
+
+  const pushEvent = (event: DiagnosticsEvent) => {
+    events.push(event);
+    if (events.length > MAX_EVENTS) events.splice(0, events.length - MAX_EVENTS);
+  };
+
+  return {
+    recordSignal: (direction, message) => pushEvent({ at: Date.now(), kind: "signal", direction, message }),
+    recordPeerState: (peerId, property, state) =>
+      pushEvent({ at: Date.now(), kind: "peer-state", peerId, property, state }),
+    recordStats: (peerId, sample) => {
+      stats.push({ at: sample.timestamp, peerId, sample });
+      if (stats.length > MAX_STATS_SNAPSHOTS) stats.splice(0, stats.length - MAX_STATS_SNAPSHOTS);
+    },
+    recordIceRestart: (peerId, attempt) => pushEvent({ at: Date.now(), kind: "ice-restart", peerId, attempt }),
+    recordError: (context, error) => pushEvent({ at: Date.now(), kind: "error", context, error: describeError(error) }),
+    getEvents: () => events.slice(),
+    getStats: () => stats.slice(),
+    clear: () => {
+      events = [];
+      stats = [];
+    },
+  };
+}
+
+// Wraps a transport so every message sent through it, or delivered to one of
+// its subscribers, lands in the recorder's timeline
+export function recordSignaling(transport: SignalingTransport, recorder: DiagnosticsRecorder): SignalingTransport {
+  return {
+    connect: () => transport.connect(),
+    send: (message) => {
+      recorder.recordSignal("sent", message);
+      transport.send(message);
+    },
+    subscribe: (handler) =>
+      transport.subscribe((message) => {
+        recorder.recordSignal("received", message);
+        handler(message);
+      }),
+    onStatus: (handler) => transport.onStatus(handler),
+    close: () => transport.close(),
+  };
+}
+
+// SDP and candidates carry local and public IP addresses
+const redactMessage = (message: SignalMessage): SignalMessage => {
+  switch (message.type) {
+    case "offer":
+    case "answer":
+      return { ...message, sdp: { type: message.sdp.type, sdp: "[redacted]" } };
+    case "ice-candidate":
+      return message.candidate ? { ...message, candidate: { ...message.candidate, candidate: "[redacted]" } } : message;
+    default:
+      return message;
+  }
+};
+
+// Never exported, whatever the redaction setting: a password challenge and its
+// proof allow offline guessing of the room password
+const stripSecrets = (message: SignalMessage): SignalMessage => {
+  switch (message.type) {
+    case "password-challenge":
+      return { ...message, nonce: "[redacted]" };
+    case "password-response":
+      return { ...message, proof: "[redacted]" };
+    default:
+      return message;
+  }
+};
+
+export interface DiagnosticsContext {
+  roomId: string;
+  clientId: string;
+  username: string;
+  media: MediaPreferences;
+  localStream: MediaStream | null;
+  participants: { peerId: string; username: string; connectionStatus: string }[];
+}
+
+export interface DiagnosticsReport {
+  generatedAt: string;
+  room: { roomId: string; clientId: string; username: string };
+  browser: Record<string, unknown>;
+  media: {
+    preferences: MediaPreferences;
+    constraints: MediaStreamConstraints;
+    tracks: { kind: string; label: string; enabled: boolean; readyState: string; settings: MediaTrackSettings }[];
+    devices: { kind: string; label: string; deviceId: string }[];
+  };
+  participants: DiagnosticsContext["participants"];
+  timeline: DiagnosticsEvent[];
+  stats: StatsSnapshot[];
+}
+
+const getBrowserInfo = (): Record<string, unknown> => ({
+  userAgent: navigator.userAgent,
+  language: navigator.language,
+  platform: navigator.platform,
+  online: navigator.onLine,
+  hardwareConcurrency: navigator.hardwareConcurrency,
+  screen: `${window.screen.width}x${window.screen.height}@${window.devicePixelRatio}`,
+  secureContext: window.isSecureContext,
+  audioOutputSelection: supportsAudioOutputSelection(),
+  displayMedia: typeof navigator.mediaDevices?.getDisplayMedia === "function",
+  encodedTransforms: "RTCRtpScriptTransform" in window,
+});
+
+export async function buildDiagnosticsReport(
+  recorder: DiagnosticsRecorder,
+  context: DiagnosticsContext,
+  { redactSdp }: { redactSdp: boolean },
+): Promise<DiagnosticsReport> {
+  let devices: MediaDeviceInfo[] = [];
+  try {
+    devices = await navigator.mediaDevices.enumerateDevices();
+  } catch (e) {
+    console.error("Error listing devices for diagnostics", e);
+  }
+
+  const timeline = recorder.getEvents().map((event) => {
+    if (event.kind !== "signal") return event;
+    const message = stripSecrets(event.message);
+    return { ...event, message: redactSdp ? redactMessage(message) : message };
+  });
+
+  return {
+    generatedAt: new Date().toISOString(),
+    room: { roomId: context.roomId, clientId: context.clientId, username: context.username },
+    browser: getBrowserInfo(),
+    media: {
+      preferences: context.media,
+      constraints: getMediaConstraints(context.media),
+      tracks: (context.localStream?.getTracks() ?? []).map((track) => ({
+        kind: track.kind,
+        label: track.label,
+        enabled: track.enabled,
+        readyState: track.readyState,
+        settings: track.getSettings(),
+      })),
+      devices: devices.map(({ kind, label, deviceId }) => ({ kind, label, deviceId })),
+    },
+    participants: context.participants,
+    timeline,
+    stats: recorder.getStats(),
+  };
+}
+
+export function downloadDiagnosticsReport(report: DiagnosticsReport) {
+  const blob = new Blob([JSON.stringify(report, null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `forza-meet-diagnostics-${report.room.roomId}-${report.generatedAt.replace(/[:.]/g, "-")}.json`;
+  link.click();
+  // Give the browser a moment to start the download before releasing the blob
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,168 @@
+// Optional end-to-end encryption of media. Frames are encrypted with AES-GCM
+// in an encoded transform before they reach DTLS-SRTP, so a relay or SFU in
+// the path only ever sees ciphertext. The key comes from a passphrase every
+// participant enters; the host moves everyone to a fresh key whenever
+// someone leaves (see useWebRTC). Those keys also need a random secret that
+// only travels over each peer's own data channel, so knowing the passphrase
+// isn't enough once you've left, and the signaling server never sees it.
+
+export type E2eeStatus = "off" | "active" | "unsupported";
+
+export type TransformOperation = "encrypt" | "decrypt";
+
+export interface E2eeEpoch {
+  epoch: number;
+  // Mixed into the epoch's key with the passphrase; empty for epoch 0
+  secret: string;
+}
+
+// Negotiated on every peer connection, like the chat channel
+export const E2EE_CHANNEL_LABEL = "e2ee";
+export const E2EE_CHANNEL_ID = 2;
+
+export type E2eeWorkerMessage =
+  | {
+      type: "transform";
+      operation: TransformOperation;
+      readable: ReadableStream;
+      writable: WritableStream;
+    }
+  // Index is the epoch modulo 256; it travels in the last byte of each frame
+  | { type: "set-key"; index: number; key: CryptoKey; activate: boolean }
+  | { type: "activate"; index: number };
+
+export interface E2eeSession {
+  // New keys decrypt straight away but only encrypt after activateAfterMs,
+  // giving everyone time to receive them first
+  setKey: (epoch: number, key: CryptoKey, activateAfterMs?: number) => void;
+  attachSender: (sender: RTCRtpSender) => void;
+  attachReceiver: (receiver: RTCRtpReceiver) => void;
+  close: () => void;
+}
+
+// Chrome before RTCRtpScriptTransform exposes the streams directly
+interface EncodedStreamsTarget {
+  createEncodedStreams: () => { readable: ReadableStream; writable: WritableStream };
+}
+
+const PBKDF2_ITERATIONS = 100_000;
+
+const encoder = new TextEncoder();
+
+const hasScriptTransform = () => "RTCRtpScriptTransform" in window;
+
+const hasEncodedStreams = () =>
+  typeof RTCRtpSender !== "undefined" && "createEncodedStreams" in RTCRtpSender.prototype;
+
+export function supportsEncodedTransforms(): boolean {
+  return hasScriptTransform() || hasEncodedStreams();
+}
+
+// createEncodedStreams() only works on connections created with this flag
+export function withEncodedTransforms(configuration: RTCConfiguration): RTCConfiguration {
+  if (hasScriptTransform() || !hasEncodedStreams()) return configuration;
+  return { ...configuration, encodedInsertableStreams: true } as RTCConfiguration;
+}
+
+// The worker leaves a codec header in the clear (see clearBytes in
+// e2ee.worker) that only fits VP8 and Opus, so encrypted calls stick to those.
+// RTX carries VP8 retransmissions.
+const E2EE_CODECS = ["video/vp8", "video/rtx", "audio/opus"];
+
+// Call before each setLocalDescription, once the transceivers exist
+export function preferE2eeCodecs(pc: RTCPeerConnection) {
+  if (typeof RTCRtpTransceiver === "undefined" || !("setCodecPreferences" in RTCRtpTransceiver.prototype)) return;
+  pc.getTransceivers().forEach((transceiver) => {
+    if (transceiver.currentDirection === "stopped") return;
+    const capabilities = RTCRtpReceiver.getCapabilities(transceiver.receiver.track.kind);
+    const codecs = capabilities?.codecs.filter((codec) => E2EE_CODECS.includes(codec.mimeType.toLowerCase())) ?? [];
+    if (codecs.length === 0) return;
+    try {
+      transceiver.setCodecPreferences(codecs);
+    } catch (e) {
+      console.warn("Could not restrict codecs for encryption", e);
+    }
+  });
+}
+
+// Salted with the room id (and a different label from lib/roomPassword), so a
+// passphrase reused as the room password still yields an unrelated key
+export async function deriveE2eeBaseKey(passphrase: string, roomId: string): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey("raw", encoder.encode(passphrase), "PBKDF2", false, ["deriveBits"]);
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", salt: encoder.encode(`forza-meet-e2ee:${roomId}`), iterations: PBKDF2_ITERATIONS, hash: "SHA-256" },
+    material,
+    256,
+  );
+  return crypto.subtle.importKey("raw", bits, "HKDF", false, ["deriveKey"]);
+}
+
+// One media key per epoch. The host picks a random secret for each rotation
+// and sends it only to the participants who remain.
+export function deriveEpochKey(baseKey: CryptoKey, secret: string): Promise<CryptoKey> {
+  return crypto.subtle.deriveKey(
+    { name: "HKDF", hash: "SHA-256", salt: encoder.encode(secret), info: encoder.encode("forza-meet-e2ee-media") },
+    baseKey,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+}
+
+export function createEpochSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// Data from a peer is untrusted; anything malformed is dropped
+export function parseE2eeEpoch(data: unknown): E2eeEpoch | null {
+  if (typeof data !== "string") return null;
+  try {
+    const parsed = JSON.parse(data) as { epoch?: unknown; secret?: unknown };
+    if (Number.isSafeInteger(parsed.epoch) && (parsed.epoch as number) > 0 && typeof parsed.secret === "string") {
+      return { epoch: parsed.epoch as number, secret: parsed.secret };
+    }
+  } catch {
+    // Not JSON
+  }
+  return null;
+}
+
+export function createE2eeSession(): E2eeSession {
+  const worker = new Worker(new URL("./e2ee.worker.ts", import.meta.url), { type: "module" });
+  const post = (message: E2eeWorkerMessage, transfer: Transferable[] = []) => worker.postMessage(message, transfer);
+  // createEncodedStreams() throws if called twice on the same sender/receiver
+  const attached = new WeakSet<RTCRtpSender | RTCRtpReceiver>();
+  const timers = new Set<number>();
+
+  const attach = (target: RTCRtpSender | RTCRtpReceiver, operation: TransformOperation) => {
+    if (attached.has(target)) return;
+    attached.add(target);
+    if (hasScriptTransform()) {
+      target.transform = new RTCRtpScriptTransform(worker, { operation });
+    } else {
+      const { readable, writable } = (target as unknown as EncodedStreamsTarget).createEncodedStreams();
+      post({ type: "transform", operation, readable, writable }, [readable, writable]);
+    }
+  };
+
+  return {
+    setKey: (epoch, key, activateAfterMs = 0) => {
+      const index = epoch % 256;
+      post({ type: "set-key", index, key, activate: activateAfterMs === 0 });
+      if (activateAfterMs === 0) return;
+      const timer = window.setTimeout(() => {
+        timers.delete(timer);
+        post({ type: "activate", index });
+      }, activateAfterMs);
+      timers.add(timer);
+    },
+    attachSender: (sender) => attach(sender, "encrypt"),
+    attachReceiver: (receiver) => attach(receiver, "decrypt"),
+    close: () => {
+      timers.forEach((timer) => window.clearTimeout(timer));
+      timers.clear();
+      worker.terminate();
+    },
+  };
+}
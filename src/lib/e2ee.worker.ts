@@ -0,0 +1,124 @@
+// Encrypts outgoing and decrypts incoming media frames for lib/e2ee. Runs in
+// a worker so the crypto stays off the main thread.
+//
+// Frame layout: [clear header][AES-GCM ciphertext + tag][IV][key index]
+
+import type { E2eeWorkerMessage, TransformOperation } from "./e2ee";
+
+const IV_LENGTH = 12;
+// Keys kept for decrypting frames still in flight from before a rotation
+const MAX_KEYS = 4;
+
+interface EncodedFrame {
+  data: ArrayBuffer;
+  // Only video frames have a type
+  type?: "key" | "delta" | "empty";
+}
+
+// Minimal view of DedicatedWorkerGlobalScope; the app is type-checked
+// against the DOM lib only
+interface TransformerEvent {
+  transformer: {
+    readable: ReadableStream<EncodedFrame>;
+    writable: WritableStream<EncodedFrame>;
+    options: { operation: TransformOperation };
+  };
+}
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<E2eeWorkerMessage>) => void) | null;
+  onrtctransform: ((event: TransformerEvent) => void) | null;
+};
+
+const keys = new Map<number, CryptoKey>();
+let currentIndex: number | null = null;
+
+// Bytes left in the clear so the depacketizer (or a future SFU) can still read
+// the codec header: VP8's payload header on video, Opus's TOC byte on audio.
+// preferE2eeCodecs keeps encrypted calls on those two codecs.
+const clearBytes = (frame: EncodedFrame) => {
+  if (frame.type === "key") return 10;
+  if (frame.type === "delta") return 3;
+  return 1;
+};
+
+async function encrypt(frame: EncodedFrame, controller: TransformStreamDefaultController<EncodedFrame>) {
+  const key = currentIndex === null ? undefined : keys.get(currentIndex);
+  // Nothing leaves unencrypted, not even before the first key arrives
+  if (!key) return;
+  const data = new Uint8Array(frame.data);
+  const headerLength = Math.min(clearBytes(frame), data.length);
+  const header = data.subarray(0, headerLength);
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = new Uint8Array(
+    await crypto.subtle.encrypt({ name: "AES-GCM", iv, additionalData: header }, key, data.subarray(headerLength)),
+  );
+  const output = new Uint8Array(headerLength + ciphertext.length + IV_LENGTH + 1);
+  output.set(header);
+  output.set(ciphertext, headerLength);
+  output.set(iv, headerLength + ciphertext.length);
+  output[output.length - 1] = currentIndex;
+  frame.data = output.buffer;
+  controller.enqueue(frame);
+}
+
+async function decrypt(frame: EncodedFrame, controller: TransformStreamDefaultController<EncodedFrame>) {
+  const data = new Uint8Array(frame.data);
+  const headerLength = clearBytes(frame);
+  if (data.length < headerLength + IV_LENGTH + 1) return;
+  const key = keys.get(data[data.length - 1]);
+  // A key we don't have (yet): drop the frame rather than feed the decoder garbage
+  if (!key) return;
+  const header = data.subarray(0, headerLength);
+  const ivStart = data.length - 1 - IV_LENGTH;
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: data.subarray(ivStart, data.length - 1), additionalData: header },
+      key,
+      data.subarray(headerLength, ivStart),
+    );
+  } catch {
+    // Wrong passphrase on one side, or a corrupted frame
+    return;
+  }
+  const output = new Uint8Array(headerLength + plaintext.byteLength);
+  output.set(header);
+  output.set(new Uint8Array(plaintext), headerLength);
+  frame.data = output.buffer;
+  controller.enqueue(frame);
+}
+
+function pipe(readable: ReadableStream<EncodedFrame>, writable: WritableStream<EncodedFrame>, operation: TransformOperation) {
+  readable
+    .pipeThrough(new TransformStream<EncodedFrame, EncodedFrame>({ transform: operation === "encrypt" ? encrypt : decrypt }))
+    .pipeTo(writable)
+    .catch((e) => console.error("Encoded transform stopped", e));
+}
+
+// RTCRtpScriptTransform
+scope.onrtctransform = (event) => {
+  const { readable, writable, options } = event.transformer;
+  pipe(readable, writable, options.operation);
+};
+
+scope.onmessage = (event) => {
+  const message = event.data;
+  switch (message.type) {
+    // Chrome's createEncodedStreams() hands the streams over by message
+    case "transform":
+      pipe(message.readable, message.writable, message.operation);
+      break;
+    case "set-key": {
+      keys.delete(message.index);
+      keys.set(message.index, message.key);
+      // Maps iterate in insertion order, so the first key is the oldest
+      while (keys.size > MAX_KEYS) keys.delete(keys.keys().next().value);
+      if (message.activate) currentIndex = message.index;
+      break;
+    }
+    case "activate":
+      if (keys.has(message.index)) currentIndex = message.index;
+      break;
+  }
+};
@@ -0,0 +1,449 @@
+// Chat attachments, sent straight to every peer over a dedicated ordered
+// RTCDataChannel. Control messages are JSON strings; file data travels as
+// binary chunks prefixed with the transfer id. The sender includes a SHA-256
+// of the file in its offer; the receiver checks it once the last byte is in
+// and reports back, and only then is the file delivered as far as the sender
+// is concerned.
+
+export const FILE_CHANNEL_LABEL = "files";
+// Negotiated like the chat channel (see lib/chat), on the next id
+export const FILE_CHANNEL_ID = 1;
+export const MAX_FILE_SIZE = 50 * 1024 * 1024;
+
+// Small enough for every browser's SCTP implementation
+const CHUNK_SIZE = 16 * 1024;
+// Stop queueing above this and resume once the buffer drains below the low mark
+const BUFFERED_AMOUNT_HIGH = 1024 * 1024;
+const BUFFERED_AMOUNT_LOW = 256 * 1024;
+// Progress is reported at most this often
+const PROGRESS_INTERVAL_MS = 100;
+// A channel closed along with its connection fires no event, so a sender
+// waiting for the buffer to drain checks back this often
+const DRAIN_TIMEOUT_MS = 1000;
+// Transfer ids are crypto.randomUUID() strings
+const ID_LENGTH = 36;
+
+export type FileTransferStatus = "transferring" | "complete" | "failed" | "cancelled";
+
+export interface FileTransfer {
+  id: string;
+  name: string;
+  size: number;
+  mimeType: string;
+  // clientId of whoever sent it
+  senderId: string;
+  username: string;
+  timestamp: number; // epoch ms
+  direction: "outgoing" | "incoming";
+  // Bytes received, or for our own files bytes sent averaged over recipients
+  transferred: number;
+  status: FileTransferStatus;
+  // Object URL of the file: ours straight away, incoming ones once verified
+  url: string | null;
+  error: string | null;
+}
+
+type FileControlMessage =
+  | {
+      type: "file-offer";
+      id: string;
+      name: string;
+      size: number;
+      mimeType: string;
+      sha256: string;
+      username: string;
+      timestamp: number;
+    }
+  // From the sender to stop a transfer for everyone, or from a receiver to
+  // stop it for themselves
+  | { type: "file-cancel"; id: string }
+  // From a receiver once the whole file is in; ok is false if it didn't verify
+  | { type: "file-received"; id: string; ok: boolean };
+
+export interface FileTransferManager {
+  addPeer: (peerId: string, channel: RTCDataChannel) => void;
+  // Fails whatever that peer was sending us and stops sending to them
+  removePeer: (peerId: string) => void;
+  // Resolves with the transfer id once every recipient has the whole file
+  send: (file: File, username: string) => Promise<string>;
+  cancel: (id: string) => void;
+  // Drops every transfer and releases their object URLs
+  clear: () => void;
+}
+
+interface OutgoingState {
+  cancelled: boolean;
+  recipients: Set<string>;
+  // Bytes sent to each recipient
+  sent: Map<string, number>;
+  // Recipients who confirmed the file arrived intact, and who didn't get it
+  delivered: Set<string>;
+  failed: Set<string>;
+  // Wakes the sender waiting on a recipient's confirmation
+  settle: Map<string, () => void>;
+}
+
+interface IncomingState {
+  peerId: string;
+  sha256: string;
+  chunks: ArrayBuffer[];
+  received: number;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// Shown inline in chat. SVG is left out: it can carry script.
+const PREVIEWABLE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+
+export const isPreviewableImage = (mimeType: string) => PREVIEWABLE_TYPES.includes(mimeType);
+
+async function sha256Hex(data: ArrayBuffer): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", data));
+  return Array.from(digest, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+// Data from a peer is untrusted; anything malformed is dropped
+function parseControlMessage(data: string): FileControlMessage | null {
+  try {
+    const v = JSON.parse(data) as Record<string, unknown>;
+    if (typeof v.id !== "string" || v.id.length !== ID_LENGTH) return null;
+    if (v.type === "file-cancel") return { type: "file-cancel", id: v.id };
+    if (v.type === "file-received" && typeof v.ok === "boolean") return { type: "file-received", id: v.id, ok: v.ok };
+    if (
+      v.type === "file-offer" &&
+      typeof v.name === "string" &&
+      Number.isSafeInteger(v.size) &&
+      (v.size as number) >= 0 &&
+      typeof v.mimeType === "string" &&
+      typeof v.sha256 === "string" &&
+      typeof v.username === "string" &&
+      typeof v.timestamp === "number" &&
+      Number.isFinite(v.timestamp)
+    ) {
+      return v as FileControlMessage;
+    }
+  } catch {
+    // Not JSON
+  }
+  return null;
+}
+
+const waitForDrain = (channel: RTCDataChannel) =>
+  new Promise<void>((resolve) => {
+    let timer: number | null = null;
+    const done = () => {
+      if (timer !== null) window.clearTimeout(timer);
+      channel.removeEventListener("bufferedamountlow", done);
+      channel.removeEventListener("close", done);
+      resolve();
+    };
+    timer = window.setTimeout(done, DRAIN_TIMEOUT_MS);
+    channel.addEventListener("bufferedamountlow", done);
+    channel.addEventListener("close", done);
+  });
+
+export function createFileTransferManager({
+  clientId,
+  onChange,
+}: {
+  clientId: string;
+  onChange: (transfers: FileTransfer[]) => void;
+}): FileTransferManager {
+  const transfers = new Map<string, FileTransfer>();
+  const channels = new Map<string, RTCDataChannel>();
+  const outgoing = new Map<string, OutgoingState>();
+  const incoming = new Map<string, IncomingState>();
+  let progressTimer: number | null = null;
+
+  const emit = () => {
+    if (progressTimer !== null) window.clearTimeout(progressTimer);
+    progressTimer = null;
+    onChange(Array.from(transfers.values()));
+  };
+
+  const emitProgress = () => {
+    if (progressTimer !== null) return;
+    progressTimer = window.setTimeout(emit, PROGRESS_INTERVAL_MS);
+  };
+
+  const update = (id: string, patch: Partial<FileTransfer>) => {
+    const transfer = transfers.get(id);
+    if (transfer) transfers.set(id, { ...transfer, ...patch });
+  };
+
+  const sendControl = (peerId: string, message: FileControlMessage) => {
+    const channel = channels.get(peerId);
+    if (channel?.readyState === "open") channel.send(JSON.stringify(message));
+  };
+
+  const finishIncoming = async (id: string) => {
+    const state = incoming.get(id);
+    const transfer = transfers.get(id);
+    if (!state || !transfer) return;
+    incoming.delete(id);
+    // A blob URL runs with our origin if opened, so anything we don't preview
+    // is stored as opaque bytes whatever type the sender claimed
+    const blob = new Blob(state.chunks, {
+      type: isPreviewableImage(transfer.mimeType) ? transfer.mimeType : "application/octet-stream",
+    });
+    const ok = (await sha256Hex(await blob.arrayBuffer())) === state.sha256;
+    sendControl(state.peerId, { type: "file-received", id, ok });
+    if (!ok) {
+      update(id, { status: "failed", error: "The file was corrupted in transit" });
+    } else {
+      update(id, { status: "complete", transferred: transfer.size, url: URL.createObjectURL(blob) });
+    }
+    emit();
+  };
+
+  // Stops waiting on a recipient, whatever became of their copy
+  const settle = (state: OutgoingState, peerId: string) => {
+    state.settle.get(peerId)?.();
+    state.settle.delete(peerId);
+  };
+
+  const handleControl = (peerId: string, message: FileControlMessage) => {
+    if (message.type === "file-received") {
+      const sending = outgoing.get(message.id);
+      if (!sending?.recipients.has(peerId)) return;
+      (message.ok ? sending.delivered : sending.failed).add(peerId);
+      settle(sending, peerId);
+      return;
+    }
+    if (message.type === "file-cancel") {
+      const sending = outgoing.get(message.id);
+      if (sending) {
+        sending.recipients.delete(peerId);
+        settle(sending, peerId);
+        return;
+      }
+      if (incoming.get(message.id)?.peerId !== peerId) return;
+      incoming.delete(message.id);
+      update(message.id, { status: "cancelled", error: "Cancelled by the sender" });
+      emit();
+      return;
+    }
+    if (transfers.has(message.id)) return;
+    if (message.size < 0 || message.size > MAX_FILE_SIZE) {
+      sendControl(peerId, { type: "file-cancel", id: message.id });
+      return;
+    }
+    transfers.set(message.id, {
+      id: message.id,
+      name: message.name,
+      size: message.size,
+      mimeType: message.mimeType,
+      senderId: peerId,
+      username: message.username,
+      timestamp: message.timestamp,
+      direction: "incoming",
+      transferred: 0,
+      status: "transferring",
+      url: null,
+      error: null,
+    });
+    incoming.set(message.id, { peerId, sha256: message.sha256, chunks: [], received: 0 });
+    emit();
+    if (message.size === 0) finishIncoming(message.id);
+  };
+
+  const handleChunk = (peerId: string, data: ArrayBuffer) => {
+    const id = decoder.decode(new Uint8Array(data, 0, Math.min(ID_LENGTH, data.byteLength)));
+    const state = incoming.get(id);
+    const transfer = transfers.get(id);
+    if (!state || !transfer || state.peerId !== peerId) return;
+    state.chunks.push(data.slice(ID_LENGTH));
+    state.received += data.byteLength - ID_LENGTH;
+    if (state.received > transfer.size) {
+      incoming.delete(id);
+      sendControl(peerId, { type: "file-received", id, ok: false });
+      update(id, { status: "failed", error: "The sender sent more data than announced" });
+      emit();
+      return;
+    }
+    update(id, { transferred: state.received });
+    if (state.received === transfer.size) finishIncoming(id);
+    else emitProgress();
+  };
+
+  const sendTo = async (peerId: string, id: string, file: File, state: OutgoingState) => {
+    const channel = channels.get(peerId);
+    if (!channel) return;
+    const header = encoder.encode(id);
+    let offset = 0;
+    while (offset < file.size) {
+      if (state.cancelled || !state.recipients.has(peerId) || channel.readyState !== "open") return;
+      if (channel.bufferedAmount > BUFFERED_AMOUNT_HIGH) {
+        await waitForDrain(channel);
+        continue;
+      }
+      const data = new Uint8Array(await file.slice(offset, offset + CHUNK_SIZE).arrayBuffer());
+      const chunk = new Uint8Array(ID_LENGTH + data.length);
+      chunk.set(header);
+      chunk.set(data, ID_LENGTH);
+      channel.send(chunk);
+      offset += data.length;
+      state.sent.set(peerId, offset);
+      const total = Array.from(state.sent.values()).reduce((sum, sent) => sum + sent, 0);
+      update(id, { transferred: Math.round(total / state.sent.size) });
+      emitProgress();
+    }
+    // The last chunks may still only be in our send buffer; the file is
+    // delivered when the receiver says it verified
+    await new Promise<void>((resolve) => {
+      if (state.cancelled || !state.recipients.has(peerId) || state.delivered.has(peerId) || state.failed.has(peerId)) {
+        resolve();
+        return;
+      }
+      const onClose = () => {
+        state.failed.add(peerId);
+        settle(state, peerId);
+      };
+      channel.addEventListener("close", onClose);
+      state.settle.set(peerId, () => {
+        channel.removeEventListener("close", onClose);
+        resolve();
+      });
+    });
+  };
+
+  return {
+    addPeer: (peerId, channel) => {
+      channels.set(peerId, channel);
+      channel.binaryType = "arraybuffer";
+      channel.bufferedAmountLowThreshold = BUFFERED_AMOUNT_LOW;
+      channel.onmessage = (event) => {
+        if (typeof event.data === "string") {
+          const message = parseControlMessage(event.data);
+          if (message) handleControl(peerId, message);
+        } else if (event.data instanceof ArrayBuffer) {
+          handleChunk(peerId, event.data);
+        }
+      };
+    },
+    removePeer: (peerId) => {
+      channels.delete(peerId);
+      outgoing.forEach((state) => {
+        if (!state.recipients.delete(peerId)) return;
+        if (!state.delivered.has(peerId)) state.failed.add(peerId);
+        settle(state, peerId);
+      });
+      let changed = false;
+      incoming.forEach((state, id) => {
+        if (state.peerId !== peerId) return;
+        incoming.delete(id);
+        update(id, { status: "failed", error: "The sender left" });
+        changed = true;
+      });
+      if (changed) emit();
+    },
+    send: async (file, username) => {
+      if (file.size > MAX_FILE_SIZE) throw new Error(`${file.name} is larger than ${MAX_FILE_SIZE} bytes`);
+      const id = crypto.randomUUID();
+      const transfer: FileTransfer = {
+        id,
+        // Pasted screenshots come without a name
+        name: file.name || "pasted-image.png",
+        size: file.size,
+        mimeType: file.type || "application/octet-stream",
+        senderId: clientId,
+        username,
+        timestamp: Date.now(),
+        direction: "outgoing",
+        transferred: 0,
+        status: "transferring",
+        url: URL.createObjectURL(file),
+        error: null,
+      };
+      transfers.set(id, transfer);
+      emit();
+
+      const sha256 = await sha256Hex(await file.arrayBuffer());
+      // Cancelled while hashing
+      if (transfers.get(id)?.status !== "transferring") return id;
+      const recipients = Array.from(channels.entries())
+        .filter(([, channel]) => channel.readyState === "open")
+        .map(([peerId]) => peerId);
+      const state: OutgoingState = {
+        cancelled: false,
+        recipients: new Set(recipients),
+        sent: new Map(),
+        delivered: new Set(),
+        failed: new Set(),
+        settle: new Map(),
+      };
+      recipients.forEach((peerId) => state.sent.set(peerId, 0));
+      outgoing.set(id, state);
+      const offer: FileControlMessage = {
+        type: "file-offer",
+        id,
+        name: transfer.name,
+        size: transfer.size,
+        mimeType: transfer.mimeType,
+        sha256,
+        username,
+        timestamp: transfer.timestamp,
+      };
+      try {
+        await Promise.all(
+          recipients.map((peerId) => {
+            sendControl(peerId, offer);
+            return sendTo(peerId, id, file, state);
+          }),
+        );
+      } finally {
+        outgoing.delete(id);
+      }
+      if (state.cancelled || !transfers.has(id)) return id;
+      // Whoever is left in recipients without confirming lost the channel mid-send
+      state.recipients.forEach((peerId) => {
+        if (!state.delivered.has(peerId)) state.failed.add(peerId);
+      });
+      if (state.failed.size > 0) {
+        update(id, {
+          status: "failed",
+          error: state.delivered.size > 0 ? "Not everyone received the file" : "The file could not be delivered",
+        });
+      } else {
+        update(id, { status: "complete", transferred: transfer.size });
+      }
+      emit();
+      return id;
+    },
+    cancel: (id) => {
+      const transfer = transfers.get(id);
+      if (!transfer || transfer.status !== "transferring") return;
+      const sending = outgoing.get(id);
+      if (sending) {
+        sending.cancelled = true;
+        sending.recipients.forEach((peerId) => {
+          sendControl(peerId, { type: "file-cancel", id });
+          settle(sending, peerId);
+        });
+      }
+      const receiving = incoming.get(id);
+      if (receiving) {
+        incoming.delete(id);
+        sendControl(receiving.peerId, { type: "file-cancel", id });
+      }
+      update(id, { status: "cancelled", error: null });
+      emit();
+    },
+    clear: () => {
+      if (progressTimer !== null) window.clearTimeout(progressTimer);
+      progressTimer = null;
+      transfers.forEach((transfer) => {
+        if (transfer.url) URL.revokeObjectURL(transfer.url);
+      });
+      transfers.clear();
+      channels.clear();
+      outgoing.forEach((state) => {
+        state.cancelled = true;
+        state.recipients.forEach((peerId) => settle(state, peerId));
+      });
+      outgoing.clear();
+      incoming.clear();
+    },
+  };
+}
@@ -0,0 +1,126 @@
+// ICE server configuration. Build-time defaults come from VITE_* env vars and
+// can be overridden per browser from the network settings dialog.
+
+export interface IceSettings {
+  stunUrls: string[];
+  turnUrls: string[];
+  turnUsername: string;
+  turnCredential: string;
+  // "relay" forces all media through TURN
+  iceTransportPolicy: RTCIceTransportPolicy;
+  // Endpoint returning short-lived TURN credentials; see createHttpIceServerProvider
+  credentialsUrl: string;
+}
+
+// Supplies extra ICE servers (typically TURN with short-lived credentials)
+// right before a peer connection is created or restarted.
+export type IceServerProvider = () => Promise<RTCIceServer[]>;
+
+const SETTINGS_KEY = "forza-meet:ice-settings";
+
+// One provider per credentials URL so their caches outlive a single call
+const httpProviders = new Map<string, IceServerProvider>();
+
+const DEFAULT_STUN_URLS = [
+  "stun:stun.l.google.com:19302",
+  "stun:stun1.l.google.com:19302",
+  "stun:stun2.l.google.com:19302",
+  "stun:stun3.l.google.com:19302",
+  "stun:stun4.l.google.com:19302",
+];
+
+const splitUrls = (value: string | undefined) =>
+  (value ?? "")
+    .split(",")
+    .map((url) => url.trim())
+    .filter(Boolean);
+
+export function getDefaultIceSettings(): IceSettings {
+  const env = import.meta.env;
+  return {
+    // An explicitly empty VITE_STUN_URLS disables the public Google servers,
+    // e.g. for air-gapped deployments
+    stunUrls: env.VITE_STUN_URLS !== undefined ? splitUrls(env.VITE_STUN_URLS) : DEFAULT_STUN_URLS,
+    turnUrls: splitUrls(env.VITE_TURN_URLS),
+    turnUsername: env.VITE_TURN_USERNAME ?? "",
+    turnCredential: env.VITE_TURN_CREDENTIAL ?? "",
+    iceTransportPolicy: env.VITE_ICE_TRANSPORT_POLICY === "relay" ? "relay" : "all",
+    credentialsUrl: env.VITE_TURN_CREDENTIALS_URL ?? "",
+  };
+}
+
+export function loadIceSettings(): IceSettings {
+  const defaults = getDefaultIceSettings();
+  try {
+    const stored = window.localStorage.getItem(SETTINGS_KEY);
+    if (!stored) return defaults;
+    return { ...defaults, ...(JSON.parse(stored) as Partial<IceSettings>) };
+  } catch (e) {
+    console.error("Ignoring unreadable ICE settings", e);
+    return defaults;
+  }
+}
+
+export function saveIceSettings(settings: IceSettings) {
+  window.localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+export function clearIceSettings() {
+  window.localStorage.removeItem(SETTINGS_KEY);
+}
+
+// Fetches credentials from an endpoint that answers with either
+// `{ iceServers: RTCIceServer[], ttl?: number }` or a single RTCIceServer
+// (`{ urls, username, credential, ttl? }`). Responses are reused until `ttl`
+// seconds have passed, less a safety margin.
+export function createHttpIceServerProvider(url: string): IceServerProvider {
+  let cached: { servers: RTCIceServer[]; expiresAt: number } | null = null;
+
+  return async () => {
+    if (cached && cached.expiresAt > Date.now()) return cached.servers;
+    const response = await fetch(url, { credentials: "include" });
+    if (!response.ok) {
+      throw new Error(`TURN credentials request failed with ${response.status}`);
+    }
+    const body = await response.json();
+    const servers: RTCIceServer[] = Array.isArray(body.iceServers) ? body.iceServers : [body];
+    const ttlSeconds = typeof body.ttl === "number" ? body.ttl : 0;
+    cached = { servers, expiresAt: Date.now() + Math.max(0, ttlSeconds - 60) * 1000 };
+    return servers;
+  };
+}
+
+export async function resolveRTCConfiguration(
+  settings: IceSettings,
+  provider?: IceServerProvider,
+): Promise<RTCConfiguration> {
+  const iceServers: RTCIceServer[] = [];
+  if (settings.stunUrls.length > 0) iceServers.push({ urls: settings.stunUrls });
+  if (settings.turnUrls.length > 0) {
+    iceServers.push({
+      urls: settings.turnUrls,
+      username: settings.turnUsername || undefined,
+      credential: settings.turnCredential || undefined,
+    });
+  }
+
+  let credentialsProvider = provider;
+  if (!credentialsProvider && settings.credentialsUrl) {
+    credentialsProvider = httpProviders.get(settings.credentialsUrl) ?? createHttpIceServerProvider(settings.credentialsUrl);
+    httpProviders.set(settings.credentialsUrl, credentialsProvider);
+  }
+  if (credentialsProvider) {
+    try {
+      iceServers.push(...(await credentialsProvider()));
+    } catch (e) {
+      // Carry on with whatever static servers we have rather than failing the call
+      console.error("Error fetching TURN credentials", e);
+    }
+  }
+
+  return {
+    iceServers,
+    iceTransportPolicy: settings.iceTransportPolicy,
+    iceCandidatePoolSize: 10,
+  };
+}
@@ -0,0 +1,131 @@
+// Device choices made in the pre-join lobby and carried into the call.
+export interface MediaPreferences {
+  videoDeviceId?: string;
+  audioDeviceId?: string;
+  // Speaker used for remote audio (HTMLMediaElement.setSinkId)
+  audioOutputDeviceId?: string;
+  audioEnabled: boolean;
+  videoEnabled: boolean;
+}
+
+export const DEFAULT_MEDIA_PREFERENCES: MediaPreferences = {
+  audioEnabled: true,
+  videoEnabled: true,
+};
+
+export function getVideoConstraints(deviceId?: string): MediaTrackConstraints {
+  return {
+    width: { ideal: 1280 },
+    height: { ideal: 720 },
+    ...(deviceId ? { deviceId: { exact: deviceId } } : { facingMode: "user" }),
+  };
+}
+
+export function getAudioConstraints(deviceId?: string): MediaTrackConstraints {
+  return {
+    echoCancellation: true,
+    noiseSuppression: true,
+    autoGainControl: true,
+    ...(deviceId ? { deviceId: { exact: deviceId } } : {}),
+  };
+}
+
+export function getMediaConstraints(preferences: MediaPreferences): MediaStreamConstraints {
+  return {
+    video: getVideoConstraints(preferences.videoDeviceId),
+    audio: getAudioConstraints(preferences.audioDeviceId),
+  };
+}
+
+// setSinkId is not available everywhere (notably Firefox before 116 and Safari)
+export const supportsAudioOutputSelection = () =>
+  typeof HTMLMediaElement !== "undefined" && "setSinkId" in HTMLMediaElement.prototype;
+
+// An undefined deviceId routes audio back to the system default output
+export async function setAudioOutput(element: HTMLMediaElement, deviceId?: string) {
+  if (!supportsAudioOutputSelection() || element.sinkId === (deviceId ?? "")) return;
+  try {
+    await element.setSinkId(deviceId ?? "");
+  } catch (e) {
+    console.error("Error selecting audio output", e);
+  }
+}
+
+export type MediaErrorReason = "permission-denied" | "not-found" | "in-use" | "unsupported" | "unknown";
+
+// How far getLocalStream had to fall back, and why
+export interface MediaIssue {
+  mode: "audio-only" | "receive-only";
+  reason: MediaErrorReason;
+}
+
+export function getMediaErrorReason(error: unknown): MediaErrorReason {
+  const name = error instanceof Error || error instanceof DOMException ? error.name : "";
+  switch (name) {
+    case "NotAllowedError":
+    case "SecurityError":
+      return "permission-denied";
+    case "NotFoundError":
+    case "OverconstrainedError":
+      return "not-found";
+    case "NotReadableError":
+    case "AbortError":
+      return "in-use";
+    case "TypeError":
+      return "unsupported";
+    default:
+      return "unknown";
+  }
+}
+
+// Asks for everything in constraints, then for the microphone alone, and
+// finally settles for an empty stream so the caller can still receive
+export async function getUserMediaWithFallback(
+  constraints: MediaStreamConstraints,
+  logError: (context: string, error: unknown) => void = console.error,
+): Promise<{ stream: MediaStream; issue: MediaIssue | null }> {
+  try {
+    return { stream: await navigator.mediaDevices.getUserMedia(constraints), issue: null };
+  } catch (error) {
+    logError("Error accessing camera and microphone:", error);
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: constraints.audio });
+      return { stream, issue: { mode: "audio-only", reason: getMediaErrorReason(error) } };
+    } catch (audioError) {
+      logError("Error accessing microphone:", audioError);
+      return { stream: new MediaStream(), issue: { mode: "receive-only", reason: getMediaErrorReason(audioError) } };
+    }
+  }
+}
+
+export function describeMediaIssue({ mode, reason }: MediaIssue): { title: string; description: string } {
+  const device = mode === "audio-only" ? "camera" : "camera and microphone";
+  const title = mode === "audio-only" ? "Joined with audio only" : "Joined without camera or microphone";
+  switch (reason) {
+    case "permission-denied":
+      return {
+        title,
+        description: `Access to your ${device} was blocked. Allow it in your browser's site settings, then pick the device under Settings.`,
+      };
+    case "not-found":
+      return {
+        title,
+        description: `No ${device} was found. Connect one and pick it under Settings.`,
+      };
+    case "in-use":
+      return {
+        title,
+        description: `Your ${device} is being used by another application. Close it, then pick the device again under Settings.`,
+      };
+    case "unsupported":
+      return {
+        title,
+        description: "This browser can't capture media here. Make sure the page is served over HTTPS.",
+      };
+    default:
+      return {
+        title,
+        description: `Your ${device} couldn't be started. You can still see and hear others.`,
+      };
+  }
+}
@@ -0,0 +1,4 @@
+export const getRoomPath = (roomId: string) => `/room/${encodeURIComponent(roomId)}`;
+
+// Absolute link that opens the pre-join step for a room
+export const getInviteLink = (roomId: string) => `${window.location.origin}${getRoomPath(roomId)}`;
@@ -0,0 +1,65 @@
+// Challenge-response for password-protected rooms. The host sends a random
+// nonce; the joiner proves it knows the password by returning an HMAC of the
+// nonce, so the password itself never crosses the signaling channel.
+
+const PBKDF2_ITERATIONS = 100_000;
+
+const encoder = new TextEncoder();
+
+// The password typed on the landing page, on its way to the room page. Kept
+// out of history state, which the browser holds on to across reloads.
+let handedOver: { roomId: string; password: string } | null = null;
+
+export function handOverRoomPassword(roomId: string, password: string | undefined) {
+  handedOver = password ? { roomId, password } : null;
+}
+
+// Returns the password at most once
+export function takeRoomPassword(roomId: string): string | undefined {
+  const password = handedOver?.roomId === roomId ? handedOver.password : undefined;
+  handedOver = null;
+  return password;
+}
+
+const toBase64 = (bytes: ArrayBuffer | Uint8Array) =>
+  btoa(String.fromCharCode(...new Uint8Array(bytes)));
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+
+// The room id salts the derivation, so the same password gives a different
+// key in every room
+export async function derivePasswordKey(password: string, roomId: string): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey("raw", encoder.encode(password), "PBKDF2", false, ["deriveKey"]);
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt: encoder.encode(`forza-meet:${roomId}`), iterations: PBKDF2_ITERATIONS, hash: "SHA-256" },
+    material,
+    { name: "HMAC", hash: "SHA-256", length: 256 },
+    false,
+    ["sign", "verify"],
+  );
+}
+
+export function createChallenge(): string {
+  return toBase64(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+// Binding the joiner's clientId stops a proof being replayed by someone else
+const challengeData = (nonce: string, joinerId: string) => encoder.encode(`${nonce}:${joinerId}`);
+
+export async function answerChallenge(key: CryptoKey, nonce: string, joinerId: string): Promise<string> {
+  return toBase64(await crypto.subtle.sign("HMAC", key, challengeData(nonce, joinerId)));
+}
+
+export async function verifyChallengeResponse(
+  key: CryptoKey,
+  nonce: string,
+  joinerId: string,
+  proof: string,
+): Promise<boolean> {
+  try {
+    return await crypto.subtle.verify("HMAC", key, fromBase64(proof), challengeData(nonce, joinerId));
+  } catch {
+    // Malformed base64 from the joiner
+    return false;
+  }
+}
@@ -0,0 +1,230 @@
+export type SignalMessage =
+  | { type: "join"; senderId: string; username: string }
+  | { type: "leave"; senderId: string }
+  | { type: "offer"; senderId: string; targetId: string; sdp: RTCSessionDescriptionInit; username: string }
+  | { type: "answer"; senderId: string; targetId: string; sdp: RTCSessionDescriptionInit }
+  // candidate is null once the sender has gathered all of its candidates
+  | { type: "ice-candidate"; senderId: string; targetId: string; candidate: RTCIceCandidateInit | null }
+  | { type: "state"; senderId: string; audioEnabled: boolean; videoEnabled: boolean }
+  | { type: "presence-request"; senderId: string }
+  | { type: "presence-response"; senderId: string; username: string }
+  // Sent before the screen tracks are negotiated so receivers can tell the
+  // screen stream apart from the camera stream by its id
+  | { type: "screen-share"; senderId: string; active: boolean; streamId: string | null }
+  // The host features one participant (by clientId) for everyone; null clears it
+  | { type: "spotlight"; senderId: string; peerId: string | null }
+  // Sent by the host when someone joins and whenever it changes. Messages
+  // below, and spotlight, are only obeyed when they come from the host.
+  | {
+      type: "host";
+      senderId: string;
+      hostId: string;
+      locked: boolean;
+      waitingRoom: boolean;
+      passwordProtected: boolean;
+    }
+  // Asks to be let in; the joiner only sends "join" once admitted
+  | { type: "knock"; senderId: string; username: string }
+  // Broadcast so every participant can keep the queue in case hosting changes hands.
+  // members lists who is already in the call, whose offers the newcomer may accept.
+  | { type: "admission"; senderId: string; peerId: string; admitted: boolean; members?: string[] }
+  // Broadcast so everyone drops a removed participant, not just the target
+  | { type: "moderation"; senderId: string; peerId: string; action: ModerationAction }
+  // Password rooms: the host challenges each knock, the joiner answers with an
+  // HMAC of the nonce (see lib/roomPassword)
+  | { type: "password-challenge"; senderId: string; targetId: string; nonce: string }
+  | { type: "password-response"; senderId: string; targetId: string; proof: string }
+  | { type: "join-rejected"; senderId: string; targetId: string; reason: "locked" | "wrong-password" }
+  | { type: "end-meeting"; senderId: string };
+
+export type ModerationAction = "mute" | "request-video" | "remove";
+
+export type SignalHandler = (message: SignalMessage) => void;
+
+// "reconnecting" while a dropped connection is being restored, "closed" once
+// the transport has given up
+export type SignalingStatus = "connected" | "reconnecting" | "closed";
+
+export type SignalingStatusHandler = (status: SignalingStatus) => void;
+
+// A transport only moves SignalMessages between the members of one room;
+// filtering out our own messages and routing by targetId is left to the caller.
+export interface SignalingTransport {
+  connect: () => Promise<void>;
+  send: (message: SignalMessage) => void;
+  // Returns an unsubscribe function. Handlers survive close()/connect() cycles.
+  subscribe: (handler: SignalHandler) => () => void;
+  // Reports connections lost and restored after connect() has resolved. The
+  // rest of the room sees a lost connection as us leaving, so after
+  // "connected" the caller has to join again. Returns an unsubscribe function.
+  onStatus: (handler: SignalingStatusHandler) => () => void;
+  close: () => void;
+}
+
+// Same-browser signaling: only tabs of one browser profile can see each other.
+export function createBroadcastChannelTransport(roomId: string): SignalingTransport {
+  const handlers = new Set<SignalHandler>();
+  let channel: BroadcastChannel | null = null;
+
+  const onMessage = (event: MessageEvent<SignalMessage>) => {
+    if (!event.data) return;
+    handlers.forEach((handler) => handler(event.data));
+  };
+
+  return {
+    connect: async () => {
+      if (channel) return;
+      channel = new BroadcastChannel(`forza-meet:${roomId}`);
+      channel.addEventListener("message", onMessage as EventListener);
+    },
+    send: (message) => {
+      if (channel) channel.postMessage(message);
+    },
+    subscribe: (handler) => {
+      handlers.add(handler);
+      return () => {
+        handlers.delete(handler);
+      };
+    },
+    // A BroadcastChannel can't drop
+    onStatus: () => () => {},
+    close: () => {
+      if (!channel) return;
+      channel.removeEventListener("message", onMessage as EventListener);
+      channel.close();
+      channel = null;
+    },
+  };
+}
+
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 15000;
+const MAX_RECONNECT_ATTEMPTS = 8;
+
+// Cross-device signaling through the relay in server/signaling.ts. Messages sent
+// before the socket opens are queued and flushed on open. A dropped socket is
+// reopened with backoff; messages sent while it is down are dropped, since
+// the caller has to join again anyway.
+export function createWebSocketTransport(url: string, roomId: string): SignalingTransport {
+  const handlers = new Set<SignalHandler>();
+  const statusHandlers = new Set<SignalingStatusHandler>();
+  let socket: WebSocket | null = null;
+  let pending: SignalMessage[] = [];
+  let reconnectTimer: number | null = null;
+  let reconnectAttempts = 0;
+  // Set by close() so a reconnect in flight doesn't bring the socket back
+  let closed = false;
+
+  const onMessage = (event: MessageEvent<string>) => {
+    let message: SignalMessage;
+    try {
+      message = JSON.parse(event.data);
+    } catch (e) {
+      console.error("Invalid signaling message", e);
+      return;
+    }
+    if (!message) return;
+    handlers.forEach((handler) => handler(message));
+  };
+
+  const setStatus = (status: SignalingStatus) => statusHandlers.forEach((handler) => handler(status));
+
+  const open = () =>
+    new Promise<void>((resolve, reject) => {
+      const endpoint = new URL(url);
+      endpoint.searchParams.set("room", roomId);
+      const ws = new WebSocket(endpoint.toString());
+      socket = ws;
+      let opened = false;
+      ws.addEventListener("message", onMessage);
+      ws.addEventListener("open", () => {
+        opened = true;
+        pending.forEach((message) => ws.send(JSON.stringify(message)));
+        pending = [];
+        resolve();
+      });
+      ws.addEventListener("error", () => {
+        if (ws.readyState !== WebSocket.OPEN) {
+          reject(new Error(`Could not reach signaling server at ${url}`));
+        }
+      });
+      ws.addEventListener("close", () => {
+        if (!opened) reject(new Error(`Could not reach signaling server at ${url}`));
+        // close() clears socket first, so past here the connection was lost
+        if (socket !== ws) return;
+        socket = null;
+        if (opened) {
+          pending = [];
+          reconnectAttempts = 0;
+          setStatus("reconnecting");
+          scheduleReconnect();
+        }
+      });
+    });
+
+  const scheduleReconnect = () => {
+    if (reconnectAttempts >= MAX_RECONNECT_ATTEMPTS) {
+      setStatus("closed");
+      return;
+    }
+    const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** reconnectAttempts, RECONNECT_MAX_DELAY_MS);
+    reconnectAttempts += 1;
+    reconnectTimer = window.setTimeout(async () => {
+      reconnectTimer = null;
+      try {
+        await open();
+        if (!closed) setStatus("connected");
+      } catch {
+        socket = null;
+        if (!closed) scheduleReconnect();
+      }
+    }, delay);
+  };
+
+  return {
+    connect: async () => {
+      if (socket) return;
+      closed = false;
+      try {
+        await open();
+      } catch (e) {
+        socket = null;
+        throw e;
+      }
+    },
+    send: (message) => {
+      if (socket && socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+      else if (socket) pending.push(message);
+    },
+    subscribe: (handler) => {
+      handlers.add(handler);
+      return () => {
+        handlers.delete(handler);
+      };
+    },
+    onStatus: (handler) => {
+      statusHandlers.add(handler);
+      return () => {
+        statusHandlers.delete(handler);
+      };
+    },
+    close: () => {
+      closed = true;
+      if (reconnectTimer !== null) window.clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+      if (!socket) return;
+      const ws = socket;
+      socket = null;
+      pending = [];
+      ws.removeEventListener("message", onMessage);
+      ws.close();
+    },
+  };
+}
+
+// Uses the WebSocket relay when VITE_SIGNALING_URL is set, otherwise falls back
+// to same-browser BroadcastChannel signaling.
+export function createSignalingTransport(roomId: string): SignalingTransport {
+  const url = import.meta.env.VITE_SIGNALING_URL;
+  return url ? createWebSocketTransport(url, roomId) : createBroadcastChannelTransport(roomId);
+}
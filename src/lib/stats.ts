@@ -0,0 +1,146 @@
+// Helpers for turning RTCPeerConnection.getStats() reports into the handful of
+// numbers we show users. Counters in the report are cumulative, so rates and
+// loss are computed against the previous sample for the same peer.
+
+export interface VideoResolution {
+  width: number;
+  height: number;
+}
+
+export interface PeerStatsSample {
+  timestamp: number;
+  rttMs: number | null;
+  jitterMs: number | null;
+  // Loudness of the peer's audio as decoded, 0-1; null when not reported
+  audioLevel: number | null;
+  // Share of inbound packets lost since the previous sample, 0-100
+  packetLossPct: number | null;
+  inboundKbps: number | null;
+  outboundKbps: number | null;
+  // Video as received from / sent to the peer; null when no video is flowing
+  inboundFps: number | null;
+  inboundResolution: VideoResolution | null;
+  outboundFps: number | null;
+  outboundResolution: VideoResolution | null;
+  // Raw cumulative counters, kept for the next delta
+  bytesReceived: number;
+  bytesSent: number;
+  packetsReceived: number;
+  packetsLost: number;
+}
+
+export type QualityLevel = "good" | "fair" | "poor";
+
+export interface ConnectionQuality {
+  level: QualityLevel;
+  // Estimated mean opinion score, 1 (bad) to 4.5 (excellent)
+  score: number;
+  rttMs: number | null;
+  jitterMs: number | null;
+  packetLossPct: number | null;
+  inboundKbps: number | null;
+  outboundKbps: number | null;
+}
+
+const readVideo = (stat: RTCStats & Record<string, unknown>) => ({
+  fps: typeof stat.framesPerSecond === "number" ? stat.framesPerSecond : null,
+  resolution:
+    typeof stat.frameWidth === "number" && typeof stat.frameHeight === "number"
+      ? { width: stat.frameWidth, height: stat.frameHeight }
+      : null,
+});
+
+const kbps = (bytes: number, previousBytes: number, ms: number) =>
+  ms > 0 ? Math.max(0, ((bytes - previousBytes) * 8) / ms) : null;
+
+export function summarizeStats(report: RTCStatsReport, previous?: PeerStatsSample): PeerStatsSample {
+  let rttMs: number | null = null;
+  let jitterMs: number | null = null;
+  let audioLevel: number | null = null;
+  let bytesReceived = 0;
+  let bytesSent = 0;
+  let packetsReceived = 0;
+  let packetsLost = 0;
+  let inboundFps: number | null = null;
+  let inboundResolution: VideoResolution | null = null;
+  let outboundFps: number | null = null;
+  let outboundResolution: VideoResolution | null = null;
+
+  report.forEach((stat) => {
+    if (stat.type === "candidate-pair" && stat.nominated && stat.state === "succeeded") {
+      if (typeof stat.currentRoundTripTime === "number") rttMs = stat.currentRoundTripTime * 1000;
+    } else if (stat.type === "inbound-rtp") {
+      bytesReceived += stat.bytesReceived ?? 0;
+      packetsReceived += stat.packetsReceived ?? 0;
+      packetsLost += stat.packetsLost ?? 0;
+      // Audio jitter is what listeners notice; ignore video's
+      if (stat.kind === "audio" && typeof stat.jitter === "number") jitterMs = stat.jitter * 1000;
+      if (stat.kind === "audio" && typeof stat.audioLevel === "number") audioLevel = stat.audioLevel;
+      // Only the first video stream is charted; a peer sharing their screen
+      // sends a second one
+      if (stat.kind === "video" && !inboundResolution) {
+        ({ fps: inboundFps, resolution: inboundResolution } = readVideo(stat));
+      }
+    } else if (stat.type === "outbound-rtp") {
+      bytesSent += stat.bytesSent ?? 0;
+      if (stat.kind === "video" && !outboundResolution) {
+        ({ fps: outboundFps, resolution: outboundResolution } = readVideo(stat));
+      }
+    }
+  });
+
+  const timestamp = Date.now();
+  let packetLossPct: number | null = null;
+  let inboundKbps: number | null = null;
+  let outboundKbps: number | null = null;
+  if (previous) {
+    const elapsed = timestamp - previous.timestamp;
+    const received = packetsReceived - previous.packetsReceived;
+    const lost = packetsLost - previous.packetsLost;
+    packetLossPct = received + lost > 0 ? (Math.max(0, lost) / (received + lost)) * 100 : 0;
+    inboundKbps = kbps(bytesReceived, previous.bytesReceived, elapsed);
+    outboundKbps = kbps(bytesSent, previous.bytesSent, elapsed);
+  }
+
+  return {
+    timestamp,
+    rttMs,
+    jitterMs,
+    audioLevel,
+    packetLossPct,
+    inboundKbps,
+    outboundKbps,
+    inboundFps,
+    inboundResolution,
+    outboundFps,
+    outboundResolution,
+    bytesReceived,
+    bytesSent,
+    packetsReceived,
+    packetsLost,
+  };
+}
+
+// Simplified ITU-T G.107 E-model: latency and loss reduce the R factor, which
+// maps onto a mean opinion score.
+export function scoreQuality(sample: PeerStatsSample): ConnectionQuality {
+  const rtt = sample.rttMs ?? 0;
+  const jitter = sample.jitterMs ?? 0;
+  const loss = sample.packetLossPct ?? 0;
+  const effectiveLatency = rtt / 2 + jitter * 2 + 10;
+  let r = 93.2 - (effectiveLatency < 160 ? effectiveLatency / 40 : (effectiveLatency - 120) / 10);
+  r -= loss * 2.5;
+  r = Math.max(0, Math.min(100, r));
+  const mos = 1 + 0.035 * r + 0.000007 * r * (r - 60) * (100 - r);
+  const score = Math.round(Math.max(1, Math.min(4.5, mos)) * 10) / 10;
+
+  return {
+    level: score >= 4 ? "good" : score >= 3.1 ? "fair" : "poor",
+    score,
+    rttMs: sample.rttMs,
+    jitterMs: sample.jitterMs,
+    packetLossPct: sample.packetLossPct,
+    inboundKbps: sample.inboundKbps,
+    outboundKbps: sample.outboundKbps,
+  };
+}
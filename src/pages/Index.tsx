@@ -1,36 +1,16 @@
-import { useState } from "react";
+import { useNavigate } from "react-router-dom";
 import LandingPage from "@/components/LandingPage";
-import VideoRoom from "@/components/VideoRoom";
+import { getRoomPath } from "@/lib/room";
+import { handOverRoomPassword } from "@/lib/roomPassword";
 
 const Index = () => {
-  const [currentView, setCurrentView] = useState<"landing" | "room">("landing");
-  const [roomData, setRoomData] = useState<{
-    username: string;
-    roomId: string;
-    isCreator: boolean;
-  } | null>(null);
+  const navigate = useNavigate();
 
-  const handleJoinRoom = (username: string, roomId: string, isCreator: boolean) => {
-    setRoomData({ username, roomId, isCreator });
-    setCurrentView("room");
+  const handleJoinRoom = (username: string, roomId: string, isCreator: boolean, password?: string) => {
+    handOverRoomPassword(roomId, password);
+    navigate(getRoomPath(roomId), { state: { username, isCreator } });
   };
 
-  const handleLeaveRoom = () => {
-    setRoomData(null);
-    setCurrentView("landing");
-  };
-
-  if (currentView === "room" && roomData) {
-    return (
-      <VideoRoom
-        username={roomData.username}
-        roomId={roomData.roomId}
-        isCreator={roomData.isCreator}
-        onLeaveRoom={handleLeaveRoom}
-      />
-    );
-  }
-
   return <LandingPage onJoinRoom={handleJoinRoom} />;
 };
 
@@ -0,0 +1,88 @@
+import { useState } from "react";
+import { useLocation, useNavigate, useParams } from "react-router-dom";
+import PreJoinScreen from "@/components/PreJoinScreen";
+import VideoRoom from "@/components/VideoRoom";
+import type { MediaPreferences } from "@/lib/media";
+import { derivePasswordKey, takeRoomPassword } from "@/lib/roomPassword";
+
+interface RoomLocationState {
+  username?: string;
+  isCreator?: boolean;
+}
+
+interface RoomSession {
+  username: string;
+  isCreator: boolean;
+  media: MediaPreferences;
+  // Only the derived key is kept once we join, never the password itself
+  passwordKey?: Promise<CryptoKey>;
+  e2eePassphrase?: string;
+}
+
+const JOIN_ERRORS = {
+  "wrong-password": "Wrong password. Check it with the host and try again.",
+  "password-required": "This room needs a password.",
+};
+
+const Room = () => {
+  const { roomId = "" } = useParams();
+  const location = useLocation();
+  const navigate = useNavigate();
+  // Set when coming from the landing page; survives reloads via history state
+  const state = (location.state as RoomLocationState | null) ?? {};
+  const [session, setSession] = useState<RoomSession | null>(null);
+  const [joinError, setJoinError] = useState<string | null>(null);
+  // Prefills the password field the first time only
+  const [handedPassword, setHandedPassword] = useState(() => takeRoomPassword(roomId));
+
+  const handleLeaveRoom = () => {
+    setSession(null);
+    navigate("/");
+  };
+
+  if (!session) {
+    return (
+      <PreJoinScreen
+        roomId={roomId}
+        initialUsername={state.username}
+        initialPassword={handedPassword}
+        error={joinError}
+        onJoin={(username, media, password, e2eePassphrase) => {
+          setJoinError(null);
+          setHandedPassword(undefined);
+          setSession({
+            username,
+            isCreator: !!state.isCreator,
+            media,
+            // Deriving the key is deliberately slow, so do it once per join
+            passwordKey: password ? derivePasswordKey(password, roomId) : undefined,
+            e2eePassphrase,
+          });
+          // Creating the room doesn't make us its host after a reload: by
+          // then the others have handed hosting to someone else
+          if (state.isCreator) navigate(location.pathname, { replace: true, state: { ...state, isCreator: false } });
+        }}
+        onCancel={() => navigate("/")}
+      />
+    );
+  }
+
+  return (
+    <VideoRoom
+      key={roomId}
+      username={session.username}
+      roomId={roomId}
+      isCreator={session.isCreator}
+      media={session.media}
+      passwordKey={session.passwordKey}
+      e2eePassphrase={session.e2eePassphrase}
+      onLeaveRoom={handleLeaveRoom}
+      onJoinRejected={(reason) => {
+        setJoinError(JOIN_ERRORS[reason]);
+        setSession(null);
+      }}
+    />
+  );
+};
+
+export default Room;
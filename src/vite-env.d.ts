@@ -1 +1,16 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SIGNALING_URL?: string;
+  // Comma-separated lists of stun:/turn: URLs
+  readonly VITE_STUN_URLS?: string;
+  readonly VITE_TURN_URLS?: string;
+  readonly VITE_TURN_USERNAME?: string;
+  readonly VITE_TURN_CREDENTIAL?: string;
+  readonly VITE_ICE_TRANSPORT_POLICY?: "all" | "relay";
+  readonly VITE_TURN_CREDENTIALS_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}